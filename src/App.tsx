@@ -7,8 +7,13 @@ import { AppSidebar } from "@/components/AppSidebar";
 import { ChatInterface } from "@/components/ChatInterface";
 import { MedicalHeader } from "@/components/MedicalHeader";
 import { SplashScreen } from "@/components/SplashScreen";
+import { SignInScreen } from "@/components/SignInScreen";
+import { ChatSearchDialog } from "@/components/ChatSearchDialog";
+import type { ChatSearchResult } from "@/lib/supabase";
+import { useAuth } from "@/hooks/useAuth";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -22,7 +27,11 @@ const queryClient = new QueryClient({
 export default function App() {
   const [darkMode, setDarkMode] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | undefined>(undefined);
+  // Message to scroll to once its session is open (set by history search)
+  const [focusMessageId, setFocusMessageId] = useState<string | undefined>(undefined);
+  const [searchOpen, setSearchOpen] = useState(false);
   const [showSplash, setShowSplash] = useState(true);
+  const { user, isLoading: isAuthLoading, signOut } = useAuth();
   
   useEffect(() => {
     const isDark = localStorage.getItem('darkMode') === 'true' || 
@@ -35,12 +44,24 @@ export default function App() {
     localStorage.setItem('darkMode', darkMode.toString());
   }, [darkMode]);
 
+  // Sessions belong to one user; never carry the open one across sign-in changes
+  useEffect(() => {
+    setCurrentSessionId(undefined);
+  }, [user?.id]);
+
   const handleSessionSelect = (sessionId: string) => {
     setCurrentSessionId(sessionId);
+    setFocusMessageId(undefined);
   };
 
   const handleNewSession = () => {
     setCurrentSessionId(undefined);
+    setFocusMessageId(undefined);
+  };
+
+  const handleSearchResultSelect = (result: ChatSearchResult) => {
+    setCurrentSessionId(result.session_id);
+    setFocusMessageId(result.message_id ?? undefined);
   };
 
   const handleSplashComplete = () => {
@@ -52,13 +73,40 @@ export default function App() {
     return <SplashScreen onComplete={handleSplashComplete} />;
   }
 
+  const toaster = (
+    <Toaster 
+      position="top-right"
+      toastOptions={{
+        className: "medical-glass",
+        duration: 4000,
+      }}
+    />
+  );
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <>
+        <SignInScreen />
+        {toaster}
+      </>
+    );
+  }
+
   return (
     <QueryClientProvider client={queryClient}>
       <div className={cn(
         "min-h-screen bg-background text-foreground transition-colors duration-200",
         darkMode && "dark"
       )}>
-        <SidebarProvider>
+        <SidebarProvider key={user.id}>
           <div className="flex h-screen w-full">
             <AppSidebar 
               darkMode={darkMode} 
@@ -66,27 +114,29 @@ export default function App() {
               onSessionSelect={handleSessionSelect}
               currentSessionId={currentSessionId}
               onNewSession={handleNewSession}
+              onSearchOpen={() => setSearchOpen(true)}
             />
             
             <div className="flex flex-col flex-1 overflow-hidden">
-              <MedicalHeader />
+              <MedicalHeader user={user} onSignOut={signOut} />
               
               <main className="flex-1 overflow-hidden">
                 <ChatInterface 
                   sessionId={currentSessionId || undefined}
+                  focusMessageId={focusMessageId}
                   onSessionCreated={(sessionId) => setCurrentSessionId(sessionId)}
                 />
               </main>
             </div>
           </div>
-          
-          <Toaster 
-            position="top-right"
-            toastOptions={{
-              className: "medical-glass",
-              duration: 4000,
-            }}
+
+          <ChatSearchDialog
+            open={searchOpen}
+            onOpenChange={setSearchOpen}
+            onSelect={handleSearchResultSelect}
           />
+          
+          {toaster}
         </SidebarProvider>
       </div>
     </QueryClientProvider>
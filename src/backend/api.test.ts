@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { retrieveDocuments } = vi.hoisted(() => ({ retrieveDocuments: vi.fn(async () => []) }));
+
+vi.mock("@/lib/supabase", () => ({
+  verifyAccessToken: async (token: string) => (token === "valid" ? { id: "user-1" } : null),
+}));
+
+vi.mock("@/services/ragService", () => ({
+  processNelsonQuery: vi.fn(),
+  streamNelsonQuery: vi.fn(),
+  retrieveDocuments,
+}));
+
+import api from "./api";
+
+// POST /api/search as a signed-in user with the given RAG config
+function search(config: unknown): Promise<Response> {
+  return api.fetch(new Request("https://api.example.com/api/search", {
+    method: "POST",
+    headers: { "Authorization": "Bearer valid", "Content-Type": "application/json" },
+    body: JSON.stringify({ query: "croup treatment", config }),
+  }));
+}
+
+beforeEach(() => {
+  retrieveDocuments.mockClear();
+});
+
+describe("client RAG config", () => {
+  it("clamps numeric settings to the server's limits and drops unknown keys", async () => {
+    const response = await search({ maxDocuments: 100000, similarityThreshold: -2, vectorWeight: 3, rerankCandidates: 500 });
+
+    expect(response.status).toBe(200);
+    expect(retrieveDocuments).toHaveBeenCalledWith("croup treatment", {
+      maxDocuments: 20,
+      similarityThreshold: 0,
+      vectorWeight: 1,
+    });
+  });
+
+  it("rejects values of the wrong type with 400", async () => {
+    for (const config of [{ textWeight: "0.5" }, { maxDocuments: null }, { retrievalStrategy: "everything" }, "hybrid"]) {
+      const response = await search(config);
+
+      expect(response.status).toBe(400);
+    }
+    expect(retrieveDocuments).not.toHaveBeenCalled();
+  });
+
+  it("requires a signed-in user", async () => {
+    const response = await api.fetch(new Request("https://api.example.com/api/search", {
+      method: "POST",
+      body: JSON.stringify({ query: "croup treatment" }),
+    }));
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -1,187 +1,341 @@
-// Example API worker for your backend endpoints
-// This runs on Cloudflare Workers at the edge
-
-// You can import types and utilities (they'll be bundled by esbuild)
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: string;
+// Nelson-GPT API worker
+// This runs on Cloudflare Workers at the edge and keeps the LLM and embedding
+// provider keys on the server. The RAG pipeline runs here; the browser talks to
+// these endpoints through src/services/apiClient.ts.
+
+import { setRuntimeEnv, readEnv } from "@/lib/env";
+import { processNelsonQuery, streamNelsonQuery, retrieveDocuments, RAGConfig, RetrievalStrategy } from "@/services/ragService";
+import { generateEmbeddings, getEmbeddingBackend, getEmbeddingModel, validateEmbeddingModel } from "@/services/embeddingService";
+import { verifyAccessToken } from "@/lib/supabase";
+import type { User } from "@supabase/supabase-js";
+import type { SpecialtyRouting } from "@/services/specialtyRouting";
+import type { ChatRequestBody, ChatStreamEvent, EmbedRequestBody, SearchRequestBody } from "@/services/apiClient";
+
+// Environment bindings (secrets are configured on the worker, never in the client bundle)
+interface Env {
+  LLM_PROVIDER?: string;
+  LLM_BASE_URL?: string;
+  LLM_MODEL?: string;
+  LLM_API_KEY?: string;
+  LLM_CONTEXT_TOKENS?: string;
+  MISTRAL_API_KEY?: string;
+  HF_API_KEY?: string;
+  RERANKER?: string;
+  RERANKER_MODEL?: string;
+  ANSWER_CACHE?: string;
+  SUPABASE_URL?: string;
+  SUPABASE_ANON_KEY?: string;
+  ALLOWED_ORIGIN?: string;
 }
 
-interface TodoItem {
-  id: string;
-  userId: string;
-  title: string;
-  completed: boolean;
-  createdAt: string;
+// Limits that keep a single request from running away with provider quota
+const MAX_QUERY_LENGTH = 4000;
+const MAX_EMBED_TEXTS = 32;
+const MAX_HISTORY_MESSAGES = 20;
+
+type NumericClientConfigKey = "maxDocuments" | "similarityThreshold" | "vectorWeight" | "textWeight";
+
+// Numeric RAG settings a client may override per request, clamped to these server-side
+// ranges so a request cannot widen retrieval or reranking beyond the server's cost limits
+const CLIENT_CONFIG_RANGES: Record<NumericClientConfigKey, { min: number; max: number; integer?: boolean }> = {
+  maxDocuments: { min: 1, max: 20, integer: true },
+  similarityThreshold: { min: 0, max: 1 },
+  vectorWeight: { min: 0, max: 1 },
+  textWeight: { min: 0, max: 1 },
+};
+
+const RETRIEVAL_STRATEGIES: RetrievalStrategy[] = ["vector", "text", "hybrid"];
+const SPECIALTY_ROUTINGS: SpecialtyRouting[] = ["off", "boost", "filter"];
+
+// Browser origins allowed to call the API (comma-separated ALLOWED_ORIGIN)
+function allowedOrigins(): string[] {
+  return (readEnv("ALLOWED_ORIGIN") || "")
+    .split(",")
+    .map(allowed => allowed.trim())
+    .filter(Boolean);
 }
 
-// Mock data - in production, you'd use a database like D1 or KV
-const mockUsers: User[] = [
-  { id: "1", name: "Alice Johnson", email: "alice@example.com", createdAt: "2024-01-01" },
-  { id: "2", name: "Bob Smith", email: "bob@example.com", createdAt: "2024-01-02" },
-];
-
-const mockTodos: TodoItem[] = [
-  { id: "1", userId: "1", title: "Deploy to Cloudflare", completed: true, createdAt: "2024-01-01" },
-  { id: "2", userId: "1", title: "Add authentication", completed: false, createdAt: "2024-01-02" },
-];
-
-// Helper function for CORS headers
-function corsHeaders(origin: string): HeadersInit {
-  return {
-    "Access-Control-Allow-Origin": origin || "*",
-    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+// Helper function for CORS headers; other origins get no Access-Control-Allow-Origin,
+// so browsers block their cross-origin calls
+function corsHeaders(origin: string | null, contentType = "application/json"): HeadersInit {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
     "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    "Content-Type": "application/json",
+    "Content-Type": contentType,
+    "Vary": "Origin",
   };
+
+  const allowedOrigin = allowedOrigins().find(allowed => allowed === origin);
+  if (allowedOrigin) {
+    headers["Access-Control-Allow-Origin"] = allowedOrigin;
+  }
+  return headers;
+}
+
+// Signed-in Supabase user for the request's bearer token, or null
+async function authenticate(request: Request): Promise<User | null> {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("Authorization") || "");
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return await verifyAccessToken(match[1]);
+  } catch (error) {
+    console.error("Token verification error:", error);
+    return null;
+  }
+}
+
+function isChoice<T extends string>(value: unknown, choices: T[]): value is T {
+  return typeof value === "string" && (choices as string[]).includes(value);
+}
+
+// Keep only the RAG settings clients are allowed to change, clamped to the server's limits;
+// a value of the wrong type is an error
+function pickClientConfig(config: unknown): { config: Partial<RAGConfig> } | { error: string } {
+  if (config === undefined || config === null) {
+    return { config: {} };
+  }
+  if (typeof config !== "object" || Array.isArray(config)) {
+    return { error: "config must be an object" };
+  }
+
+  const source = config as Record<string, unknown>;
+  const picked: Partial<RAGConfig> = {};
+
+  for (const key of Object.keys(CLIENT_CONFIG_RANGES) as NumericClientConfigKey[]) {
+    const value = source[key];
+    if (value === undefined) continue;
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return { error: `config.${key} must be a number` };
+    }
+
+    const { min, max, integer } = CLIENT_CONFIG_RANGES[key];
+    const clamped = Math.min(max, Math.max(min, value));
+    picked[key] = integer ? Math.round(clamped) : clamped;
+  }
+
+  if (source.retrievalStrategy !== undefined) {
+    if (!isChoice(source.retrievalStrategy, RETRIEVAL_STRATEGIES)) {
+      return { error: `config.retrievalStrategy must be one of ${RETRIEVAL_STRATEGIES.join(", ")}` };
+    }
+    picked.retrievalStrategy = source.retrievalStrategy;
+  }
+
+  if (source.specialtyRouting !== undefined) {
+    if (!isChoice(source.specialtyRouting, SPECIALTY_ROUTINGS)) {
+      return { error: `config.specialtyRouting must be one of ${SPECIALTY_ROUTINGS.join(", ")}` };
+    }
+    picked.specialtyRouting = source.specialtyRouting;
+  }
+
+  return { config: picked };
+}
+
+function validateQuery(query: unknown): string | null {
+  if (typeof query !== "string" || !query.trim()) {
+    return "A non-empty query is required";
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return `Query must be at most ${MAX_QUERY_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Stream the RAG pipeline events as server-sent events
+function streamChatResponse(
+  body: ChatRequestBody,
+  config: Partial<RAGConfig>,
+  origin: string | null,
+  requestSignal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+
+  // Stop the pipeline (and the provider request) when the client goes away
+  const abortController = new AbortController();
+  requestSignal.addEventListener("abort", () => abortController.abort(), { once: true });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        const generator = streamNelsonQuery(
+          body.query,
+          (body.conversationHistory || []).slice(-MAX_HISTORY_MESSAGES),
+          config,
+          abortController.signal
+        );
+
+        // The pipeline reports its own failures as error events followed by done
+        for await (const event of generator) {
+          if (abortController.signal.aborted) break;
+          send(event);
+        }
+      } catch (error) {
+        if (abortController.signal.aborted) return;
+        console.error("Chat stream error:", error);
+        send({ type: "error", message: "Failed to generate response" });
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders(origin, "text/event-stream"),
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
 }
 
 // Main worker handler
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: Env = {}): Promise<Response> {
+    setRuntimeEnv({ ...env });
+
     const url = new URL(request.url);
     const method = request.method;
-    const origin = request.headers.get("Origin") || "*";
-    
+    const origin = request.headers.get("Origin");
+
     // Handle CORS preflight
     if (method === "OPTIONS") {
       return new Response(null, { headers: corsHeaders(origin) });
     }
-    
+
+    // Every endpoint spends provider quota or reads the index, so all require a signed-in user
+    const user = await authenticate(request);
+    if (!user) {
+      return Response.json(
+        { error: "Sign in required" },
+        { status: 401, headers: corsHeaders(origin) }
+      );
+    }
+
     // Router - match paths and methods
     try {
       // GET /api/health - Health check endpoint
       if (url.pathname === "/api/health" && method === "GET") {
         return Response.json(
-          { 
-            status: "healthy", 
+          {
+            status: "healthy",
             timestamp: new Date().toISOString(),
-            version: "1.0.0"
+            version: "1.0.0",
+            embeddingBackend: getEmbeddingBackend(),
+            embeddingModel: getEmbeddingModel(),
+            embeddingModelAvailable: await validateEmbeddingModel(),
           },
           { headers: corsHeaders(origin) }
         );
       }
-      
-      // GET /api/users - List all users
-      if (url.pathname === "/api/users" && method === "GET") {
-        return Response.json(
-          { users: mockUsers },
-          { headers: corsHeaders(origin) }
-        );
-      }
-      
-      // GET /api/users/:id - Get specific user
-      const userMatch = url.pathname.match(/^\/api\/users\/(\d+)$/);
-      if (userMatch && method === "GET") {
-        const userId = userMatch[1];
-        const user = mockUsers.find(u => u.id === userId);
-        
-        if (!user) {
+
+      // POST /api/chat - Run the RAG pipeline (SSE stream unless stream is false)
+      if (url.pathname === "/api/chat" && method === "POST") {
+        const body = await request.json() as ChatRequestBody;
+
+        const queryError = validateQuery(body.query);
+        if (queryError) {
           return Response.json(
-            { error: "User not found" },
-            { status: 404, headers: corsHeaders(origin) }
+            { error: queryError },
+            { status: 400, headers: corsHeaders(origin) }
           );
         }
-        
-        return Response.json(
-          { user },
-          { headers: corsHeaders(origin) }
-        );
-      }
-      
-      // POST /api/users - Create new user
-      if (url.pathname === "/api/users" && method === "POST") {
-        const body = await request.json() as Partial<User>;
-        
-        // Validate input
-        if (!body.name || !body.email) {
+
+        const clientConfig = pickClientConfig(body.config);
+        if ("error" in clientConfig) {
           return Response.json(
-            { error: "Name and email are required" },
+            { error: clientConfig.error },
             { status: 400, headers: corsHeaders(origin) }
           );
         }
-        
-        const newUser: User = {
-          id: String(mockUsers.length + 1),
-          name: body.name,
-          email: body.email,
-          createdAt: new Date().toISOString(),
-        };
-        
-        // In production, you'd save to database here
-        mockUsers.push(newUser);
-        
-        return Response.json(
-          { user: newUser },
-          { status: 201, headers: corsHeaders(origin) }
-        );
-      }
-      
-      // GET /api/todos - List todos with optional filtering
-      if (url.pathname === "/api/todos" && method === "GET") {
-        const userId = url.searchParams.get("userId");
-        const completed = url.searchParams.get("completed");
-        
-        let filteredTodos = mockTodos;
-        
-        if (userId) {
-          filteredTodos = filteredTodos.filter(t => t.userId === userId);
-        }
-        
-        if (completed !== null) {
-          filteredTodos = filteredTodos.filter(t => t.completed === (completed === "true"));
+
+        if (body.stream !== false) {
+          return streamChatResponse(body, clientConfig.config, origin, request.signal);
         }
-        
+
+        const response = await processNelsonQuery(
+          body.query,
+          (body.conversationHistory || []).slice(-MAX_HISTORY_MESSAGES),
+          clientConfig.config
+        );
+
         return Response.json(
-          { todos: filteredTodos },
+          { response },
           { headers: corsHeaders(origin) }
         );
       }
-      
-      // PUT /api/todos/:id - Update todo
-      const todoMatch = url.pathname.match(/^\/api\/todos\/(\d+)$/);
-      if (todoMatch && method === "PUT") {
-        const todoId = todoMatch[1];
-        const body = await request.json() as Partial<TodoItem>;
-        
-        const todoIndex = mockTodos.findIndex(t => t.id === todoId);
-        if (todoIndex === -1) {
+
+      // POST /api/embed - Embed texts with the configured embedding backend
+      if (url.pathname === "/api/embed" && method === "POST") {
+        const body = await request.json() as EmbedRequestBody;
+
+        if (!Array.isArray(body.texts) || body.texts.length === 0 || !body.texts.every(text => typeof text === "string")) {
           return Response.json(
-            { error: "Todo not found" },
-            { status: 404, headers: corsHeaders(origin) }
+            { error: "texts must be a non-empty array of strings" },
+            { status: 400, headers: corsHeaders(origin) }
           );
         }
-        
-        // Update todo
-        mockTodos[todoIndex] = { ...mockTodos[todoIndex], ...body };
-        
+
+        if (body.texts.length > MAX_EMBED_TEXTS) {
+          return Response.json(
+            { error: `At most ${MAX_EMBED_TEXTS} texts can be embedded per request` },
+            { status: 400, headers: corsHeaders(origin) }
+          );
+        }
+
+        const embeddings = await generateEmbeddings(body.texts);
+
         return Response.json(
-          { todo: mockTodos[todoIndex] },
+          { embeddings },
           { headers: corsHeaders(origin) }
         );
       }
-      
-      // POST /api/echo - Echo endpoint for testing
-      if (url.pathname === "/api/echo" && method === "POST") {
-        const body = await request.json();
+
+      // POST /api/search - Retrieve Nelson Textbook documents for a query
+      if (url.pathname === "/api/search" && method === "POST") {
+        const body = await request.json() as SearchRequestBody;
+
+        const queryError = validateQuery(body.query);
+        if (queryError) {
+          return Response.json(
+            { error: queryError },
+            { status: 400, headers: corsHeaders(origin) }
+          );
+        }
+
+        const clientConfig = pickClientConfig(body.config);
+        if ("error" in clientConfig) {
+          return Response.json(
+            { error: clientConfig.error },
+            { status: 400, headers: corsHeaders(origin) }
+          );
+        }
+
+        const documents = await retrieveDocuments(body.query, clientConfig.config);
+
         return Response.json(
-          { 
-            echo: body,
-            headers: Object.fromEntries(request.headers.entries()),
-            timestamp: new Date().toISOString()
-          },
+          { documents },
           { headers: corsHeaders(origin) }
         );
       }
-      
+
       // 404 for unmatched routes
       return Response.json(
         { error: "Not Found", path: url.pathname },
         { status: 404, headers: corsHeaders(origin) }
       );
-      
+
     } catch (error) {
       console.error("API Error:", error);
       return Response.json(
@@ -191,11 +345,3 @@ export default {
     }
   }
 };
-
-// You can also define environment bindings interface for type safety
-// interface Env {
-//   DB: D1Database;           // For SQL database
-//   KV: KVNamespace;          // For key-value storage
-//   BUCKET: R2Bucket;         // For file storage
-//   API_KEY: string;          // For secrets
-// } 
\ No newline at end of file
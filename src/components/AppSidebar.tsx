@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   Sidebar,
   SidebarContent,
@@ -10,15 +10,42 @@ import {
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuAction,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { getChatSessions, ChatSession } from "@/lib/supabase";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  getChatSessions,
+  renameChatSession,
+  setChatSessionPinned,
+  setChatSessionArchived,
+  deleteChatSession,
+  ChatSession,
+} from "@/lib/supabase";
 import { cn } from "@/lib/utils";
 import toast from "react-hot-toast";
 import { MedicalToolsDialog } from "./MedicalToolsDialog";
@@ -42,14 +69,139 @@ import {
   Search,
   Clock,
   Loader2,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Trash2,
 } from "lucide-react";
 
+// Sessions fetched per page of the history list; pinned ones are fetched in one go
+const SESSION_PAGE_SIZE = 20;
+const MAX_PINNED_SESSIONS = 50;
+
+type SessionGroup = { label: string; sessions: ChatSession[] };
+
+// Newest first, as the history list and its pages are ordered
+function sortByLastMessage(sessions: ChatSession[]): ChatSession[] {
+  return [...sessions].sort((a, b) => b.last_message_at.localeCompare(a.last_message_at) || b.id.localeCompare(a.id));
+}
+
+// Group sessions into Today / Yesterday / Last week / Older by their last message
+function groupSessionsByDate(sessions: ChatSession[], now: Date = new Date()): SessionGroup[] {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const day = 24 * 60 * 60 * 1000;
+  const groups: SessionGroup[] = [
+    { label: "Today", sessions: [] },
+    { label: "Yesterday", sessions: [] },
+    { label: "Last week", sessions: [] },
+    { label: "Older", sessions: [] },
+  ];
+
+  for (const session of sessions) {
+    const time = new Date(session.last_message_at).getTime();
+    const index = time >= startOfToday ? 0 : time >= startOfToday - day ? 1 : time >= startOfToday - 7 * day ? 2 : 3;
+    groups[index].sessions.push(session);
+  }
+
+  return groups.filter((group) => group.sessions.length > 0);
+}
+
+interface SessionMenuItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  timeAgo: string;
+  onSelect: (session: ChatSession) => void;
+  onRename: (session: ChatSession) => void;
+  onTogglePinned: (session: ChatSession) => void;
+  onToggleArchived: (session: ChatSession) => void;
+  onDelete: (session: ChatSession) => void;
+}
+
+// One history entry with its rename / pin / archive / delete menu
+function SessionMenuItem({
+  session,
+  isActive,
+  timeAgo,
+  onSelect,
+  onRename,
+  onTogglePinned,
+  onToggleArchived,
+  onDelete,
+}: SessionMenuItemProps) {
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton 
+        className={cn(
+          "w-full justify-start p-3 pr-8 h-auto",
+          isActive && "bg-primary/10 border-primary/20"
+        )}
+        onClick={() => onSelect(session)}
+      >
+        <div className="flex items-start gap-2 w-full">
+          {session.pinned ? (
+            <Pin className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+          ) : (
+            <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm truncate">
+              {session.title}
+            </p>
+            <div className="flex items-center gap-2 mt-1">
+              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {timeAgo}
+              </span>
+              <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
+                {session.message_count}
+              </Badge>
+            </div>
+          </div>
+        </div>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover className="top-3">
+            <MoreHorizontal />
+            <span className="sr-only">Consultation actions</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onSelect={() => onRename(session)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            <span>Rename</span>
+          </DropdownMenuItem>
+          {!session.archived && (
+            <DropdownMenuItem onSelect={() => onTogglePinned(session)}>
+              {session.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+              <span>{session.pinned ? "Unpin" : "Pin"}</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => onToggleArchived(session)}>
+            {session.archived ? <ArchiveRestore className="mr-2 h-4 w-4" /> : <Archive className="mr-2 h-4 w-4" />}
+            <span>{session.archived ? "Restore" : "Archive"}</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-red-600" onSelect={() => onDelete(session)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            <span>Delete</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+}
+
 interface AppSidebarProps {
   darkMode: boolean;
   setDarkMode: (dark: boolean) => void;
   onSessionSelect?: (sessionId: string) => void;
   currentSessionId?: string;
   onNewSession?: () => void;
+  onSearchOpen?: () => void;
 }
 
 export function AppSidebar({ 
@@ -57,34 +209,178 @@ export function AppSidebar({
   setDarkMode, 
   onSessionSelect,
   currentSessionId,
-  onNewSession
+  onNewSession,
+  onSearchOpen
 }: AppSidebarProps) {
   const [chatHistory, setChatHistory] = useState<ChatSession[]>([]);
+  const [pinnedSessions, setPinnedSessions] = useState<ChatSession[]>([]);
+  const [archivedSessions, setArchivedSessions] = useState<ChatSession[] | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [renameTarget, setRenameTarget] = useState<ChatSession | null>(null);
+  const [renameTitle, setRenameTitle] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<ChatSession | null>(null);
   const [medicalToolsOpen, setMedicalToolsOpen] = useState(false);
   const [selectedTool, setSelectedTool] = useState<string>("dosing");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   
-  // Load chat sessions on mount
-  useEffect(() => {
-    loadChatSessions();
-  }, []);
-  
-  const loadChatSessions = async () => {
+  const loadChatSessions = useCallback(async () => {
     setIsLoadingHistory(true);
     try {
-      const sessions = await getChatSessions(20); // Get last 20 sessions
-      setChatHistory(sessions);
+      const [pinned, recent] = await Promise.all([
+        getChatSessions(MAX_PINNED_SESSIONS, { pinned: true }),
+        getChatSessions(SESSION_PAGE_SIZE, { pinned: false }),
+      ]);
+      setPinnedSessions(pinned);
+      setChatHistory(recent);
+      setHasMoreHistory(recent.length === SESSION_PAGE_SIZE);
     } catch (error) {
       console.error('Failed to load chat sessions:', error);
       toast.error('Failed to load conversation history');
     } finally {
       setIsLoadingHistory(false);
     }
+  }, []);
+
+  // Load chat sessions on mount
+  useEffect(() => {
+    loadChatSessions();
+  }, [loadChatSessions]);
+
+  // A session created by the chat is not in the list yet; reload once per unknown session
+  const reloadedForSessionRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!currentSessionId || isLoadingHistory || reloadedForSessionRef.current === currentSessionId) return;
+
+    const isListed = [...pinnedSessions, ...chatHistory, ...(archivedSessions || [])]
+      .some((session) => session.id === currentSessionId);
+    if (!isListed) {
+      reloadedForSessionRef.current = currentSessionId;
+      loadChatSessions();
+    }
+  }, [currentSessionId, isLoadingHistory, pinnedSessions, chatHistory, archivedSessions, loadChatSessions]);
+
+  const loadMoreSessions = useCallback(async () => {
+    const oldest = chatHistory[chatHistory.length - 1];
+    if (!oldest || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getChatSessions(SESSION_PAGE_SIZE, { pinned: false, before: oldest });
+      setChatHistory((prev) => [...prev, ...page.filter((session) => !prev.some((loaded) => loaded.id === session.id))]);
+      setHasMoreHistory(page.length === SESSION_PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load more chat sessions:', error);
+      toast.error('Failed to load older conversations');
+      setHasMoreHistory(false);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [chatHistory, isLoadingMore]);
+
+  // Fetch the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreHistory) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMoreSessions();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreHistory, loadMoreSessions]);
+
+  const handleToggleArchivedList = async () => {
+    const show = !showArchived;
+    setShowArchived(show);
+    if (show && archivedSessions === null) {
+      try {
+        setArchivedSessions(await getChatSessions(MAX_PINNED_SESSIONS, { archived: true }));
+      } catch (error) {
+        console.error('Failed to load archived sessions:', error);
+        toast.error('Failed to load archived conversations');
+      }
+    }
   };
-  
-  const handleSessionClick = (sessionId: string) => {
+
+  // Move an updated session into the list its pin and archive state belong to
+  const placeSession = (updated: ChatSession) => {
+    const without = (sessions: ChatSession[]) => sessions.filter((session) => session.id !== updated.id);
+    const oldestLoaded = chatHistory[chatHistory.length - 1];
+
+    setPinnedSessions((prev) => updated.pinned && !updated.archived ? sortByLastMessage([...without(prev), updated]) : without(prev));
+    setArchivedSessions((prev) => prev && (updated.archived ? sortByLastMessage([...without(prev), updated]) : without(prev)));
+    setChatHistory((prev) => {
+      // Sessions older than the loaded pages arrive with a later page instead
+      const belongsHere = !updated.pinned && !updated.archived &&
+        (!hasMoreHistory || !oldestLoaded || updated.last_message_at >= oldestLoaded.last_message_at);
+      return belongsHere ? sortByLastMessage([...without(prev), updated]) : without(prev);
+    });
+  };
+
+  const handleSessionClick = (session: ChatSession) => {
     if (onSessionSelect) {
-      onSessionSelect(sessionId);
+      onSessionSelect(session.id);
+    }
+  };
+
+  const handleRenameOpen = (session: ChatSession) => {
+    setRenameTarget(session);
+    setRenameTitle(session.title);
+  };
+
+  const handleRenameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renameTarget) return;
+
+    try {
+      placeSession(await renameChatSession(renameTarget.id, renameTitle));
+      setRenameTarget(null);
+    } catch (error) {
+      toast.error('Failed to rename conversation');
+    }
+  };
+
+  const handleTogglePinned = async (session: ChatSession) => {
+    try {
+      placeSession(await setChatSessionPinned(session.id, !session.pinned));
+    } catch (error) {
+      toast.error(session.pinned ? 'Failed to unpin conversation' : 'Failed to pin conversation');
+    }
+  };
+
+  const handleToggleArchived = async (session: ChatSession) => {
+    try {
+      placeSession(await setChatSessionArchived(session.id, !session.archived));
+      toast.success(session.archived ? 'Conversation restored' : 'Conversation archived');
+    } catch (error) {
+      toast.error(session.archived ? 'Failed to restore conversation' : 'Failed to archive conversation');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteTarget) return;
+    const session = deleteTarget;
+    setDeleteTarget(null);
+
+    try {
+      await deleteChatSession(session.id);
+      const without = (sessions: ChatSession[]) => sessions.filter((item) => item.id !== session.id);
+      setChatHistory(without);
+      setPinnedSessions(without);
+      setArchivedSessions((prev) => prev && without(prev));
+
+      // The open consultation no longer exists
+      if (session.id === currentSessionId && onNewSession) {
+        onNewSession();
+      }
+      toast.success('Conversation deleted');
+    } catch (error) {
+      toast.error('Failed to delete conversation');
     }
   };
   
@@ -184,6 +480,12 @@ export function AppSidebar({
           <Plus className="h-4 w-4 mr-2" />
           New Consultation
         </Button>
+
+        <Button variant="outline" size="sm" className="w-full mt-2 justify-start text-muted-foreground" onClick={onSearchOpen}>
+          <Search className="h-4 w-4 mr-2" />
+          Search consultations
+          <kbd className="ml-auto text-xs font-mono">⌘K</kbd>
+        </Button>
       </SidebarHeader>
 
       <SidebarContent>
@@ -195,45 +497,83 @@ export function AppSidebar({
             )}
           </SidebarGroupLabel>
           <SidebarGroupContent>
-            <ScrollArea className="h-[200px]">
-              <SidebarMenu>
-                {chatHistory.length === 0 && !isLoadingHistory ? (
-                  <div className="p-3 text-center text-sm text-muted-foreground">
-                    No recent conversations
+            <ScrollArea className="h-[280px]">
+              {pinnedSessions.length === 0 && chatHistory.length === 0 && !isLoadingHistory ? (
+                <div className="p-3 text-center text-sm text-muted-foreground">
+                  No recent conversations
+                </div>
+              ) : (
+                [
+                  ...(pinnedSessions.length > 0 ? [{ label: "Pinned", sessions: pinnedSessions }] : []),
+                  ...groupSessionsByDate(chatHistory),
+                ].map((group) => (
+                  <div key={group.label}>
+                    <p className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">{group.label}</p>
+                    <SidebarMenu>
+                      {group.sessions.map((session) => (
+                        <SessionMenuItem
+                          key={session.id}
+                          session={session}
+                          isActive={currentSessionId === session.id}
+                          timeAgo={formatTimeAgo(session.last_message_at)}
+                          onSelect={handleSessionClick}
+                          onRename={handleRenameOpen}
+                          onTogglePinned={handleTogglePinned}
+                          onToggleArchived={handleToggleArchived}
+                          onDelete={setDeleteTarget}
+                        />
+                      ))}
+                    </SidebarMenu>
                   </div>
-                ) : (
-                  chatHistory.map((session) => (
-                    <SidebarMenuItem key={session.id}>
-                      <SidebarMenuButton 
-                        className={cn(
-                          "w-full justify-start p-3 h-auto",
-                          currentSessionId === session.id && "bg-primary/10 border-primary/20"
-                        )}
-                        onClick={() => handleSessionClick(session.id)}
-                      >
-                        <div className="flex items-start gap-2 w-full">
-                          <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium text-sm truncate">
-                              {session.title}
-                            </p>
-                            <div className="flex items-center gap-2 mt-1">
-                              <span className="text-xs text-muted-foreground flex items-center gap-1">
-                                <Clock className="h-3 w-3" />
-                                {formatTimeAgo(session.last_message_at)}
-                              </span>
-                              <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
-                                {session.message_count}
-                              </Badge>
-                            </div>
-                          </div>
-                        </div>
-                      </SidebarMenuButton>
-                    </SidebarMenuItem>
-                  ))
-                )}
-              </SidebarMenu>
+                ))
+              )}
+
+              {hasMoreHistory && (
+                <div ref={loadMoreRef} className="flex justify-center p-2">
+                  {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </div>
+              )}
+
+              {showArchived && (
+                <div>
+                  <p className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">Archived</p>
+                  {archivedSessions === null ? (
+                    <div className="flex justify-center p-2">
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : archivedSessions.length === 0 ? (
+                    <div className="p-3 text-center text-sm text-muted-foreground">
+                      No archived conversations
+                    </div>
+                  ) : (
+                    <SidebarMenu>
+                      {archivedSessions.map((session) => (
+                        <SessionMenuItem
+                          key={session.id}
+                          session={session}
+                          isActive={currentSessionId === session.id}
+                          timeAgo={formatTimeAgo(session.last_message_at)}
+                          onSelect={handleSessionClick}
+                          onRename={handleRenameOpen}
+                          onTogglePinned={handleTogglePinned}
+                          onToggleArchived={handleToggleArchived}
+                          onDelete={setDeleteTarget}
+                        />
+                      ))}
+                    </SidebarMenu>
+                  )}
+                </div>
+              )}
             </ScrollArea>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start text-xs text-muted-foreground"
+              onClick={handleToggleArchivedList}
+            >
+              <Archive className="h-3 w-3 mr-2" />
+              {showArchived ? "Hide archived" : "Show archived"}
+            </Button>
           </SidebarGroupContent>
         </SidebarGroup>
 
@@ -327,6 +667,47 @@ export function AppSidebar({
         </div>
       </SidebarFooter>
       
+      <Dialog open={renameTarget !== null} onOpenChange={(open) => !open && setRenameTarget(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rename consultation</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRenameSubmit} className="space-y-4">
+            <Input
+              value={renameTitle}
+              onChange={(e) => setRenameTitle(e.target.value)}
+              maxLength={120}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenameTarget(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!renameTitle.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete consultation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-destructive text-white hover:bg-destructive/90" onClick={handleDeleteConfirm}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <MedicalToolsDialog
         open={medicalToolsOpen}
         onOpenChange={setMedicalToolsOpen}
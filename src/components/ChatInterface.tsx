@@ -22,31 +22,57 @@ import {
   Brain,
   Clock,
   Plus,
+  Square,
+  Zap,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import React, { useState } from "react";
 import { useChat } from "@/hooks/useChat";
-import toast from "react-hot-toast";
+import { ResponseProgress } from "@/components/ResponseProgress";
+import { CitationMarker } from "@/components/CitationMarker";
+import { FeedbackDialog } from "@/components/FeedbackDialog";
+
+// Turn [n] and [1, 2] citation markers into links the markdown renderer can pick up
+function linkCitationMarkers(content: string): string {
+  return content.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, (_, group: string) =>
+    group
+      .split(",")
+      .map((marker) => `[${marker.trim()}](#cite-${marker.trim()})`)
+      .join("")
+  );
+}
 
 interface ChatInterfaceProps {
   sessionId?: string;
+  // Scroll to and highlight this message once the session has loaded
+  focusMessageId?: string;
   onSessionCreated?: (sessionId: string) => void;
 }
 
-export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProps) {
+// How long a message jumped to from search stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2500;
+
+export function ChatInterface({ sessionId, focusMessageId, onSessionCreated }: ChatInterfaceProps) {
   const {
     messages,
     isLoading,
+    isHydrating,
     error,
     sendMessage,
+    stopGeneration,
     createNewSession,
     regenerateLastResponse,
     copyMessage,
+    submitFeedback,
   } = useChat({ enableStreaming: true, sessionId, onSessionCreated });
   
   const [inputValue, setInputValue] = useState("");
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const focusedMessageRef = useRef<string | undefined>(undefined);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Assistant message whose thumbs-down reasons are being picked
+  const [feedbackMessageId, setFeedbackMessageId] = useState<string | null>(null);
 
   const exampleQuestions = [
     "What is the first-line management for Kawasaki disease?",
@@ -64,12 +90,29 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
     }
   };
 
+  // Jump to a message opened from search once it is rendered; otherwise follow the conversation
   useEffect(() => {
+    if (focusMessageId && focusedMessageRef.current !== focusMessageId) {
+      const element = document.getElementById(`message-${focusMessageId}`);
+      if (element) {
+        focusedMessageRef.current = focusMessageId;
+        element.scrollIntoView({ block: "center" });
+        setHighlightedMessageId(focusMessageId);
+        return;
+      }
+      if (isHydrating) return;
+    }
     scrollToBottom();
-  }, [messages]);
+  }, [messages, focusMessageId, isHydrating]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   const handleSendMessage = async (content: string) => {
-    if (!content.trim() || isLoading) return;
+    if (!content.trim() || isLoading || isHydrating) return;
     
     setInputValue("");
     await sendMessage(content);
@@ -114,8 +157,23 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
       {/* Chat Messages */}
       <ScrollArea className="flex-1 p-6" ref={scrollAreaRef}>
         <div className="max-w-4xl mx-auto space-y-6">
-          {messages.map((message) => (
-            <div key={message.id} className="space-y-3">
+          {/* Session Loading Indicator */}
+          {isHydrating && (
+            <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span className="text-sm">Loading consultation...</span>
+            </div>
+          )}
+
+          {!isHydrating && messages.map((message) => (
+            <div
+              key={message.id}
+              id={`message-${message.id}`}
+              className={cn(
+                "space-y-3 rounded-lg transition-shadow duration-500",
+                highlightedMessageId === message.id && "ring-2 ring-primary/40 ring-offset-4 ring-offset-background"
+              )}
+            >
               {/* Message Header */}
               <div className="flex items-center gap-2">
                 {message.role === "user" ? (
@@ -140,6 +198,18 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
                         {message.confidence} confidence
                       </Badge>
                     )}
+                    {message.stopped && (
+                      <Badge variant="outline" className="text-xs text-muted-foreground">
+                        <Square className="h-3 w-3 mr-1" />
+                        Stopped
+                      </Badge>
+                    )}
+                    {message.cached && (
+                      <Badge variant="outline" className="text-xs text-muted-foreground">
+                        <Zap className="h-3 w-3 mr-1" />
+                        Cached
+                      </Badge>
+                    )}
                   </>
                 )}
                 <span className="text-xs text-muted-foreground ml-auto">
@@ -152,6 +222,14 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
                 "p-4",
                 message.role === "user" ? "bg-muted/50" : "bg-card"
               )}>
+                {message.role === "assistant" && (
+                  <ResponseProgress
+                    progress={message.progress}
+                    sources={message.sources}
+                    isStreaming={message.isStreaming}
+                  />
+                )}
+
                 {message.role === "assistant" ? (
                   <div className="markdown-content">
                     <ReactMarkdown
@@ -165,15 +243,44 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
                         li: ({node, ...props}) => <li className="list-disc" {...props} />,
                         strong: ({node, ...props}) => <strong className="font-semibold text-foreground" {...props} />,
                         code: ({node, ...props}) => <code className="bg-muted px-1.5 py-0.5 rounded text-sm font-mono" {...props} />,
+                        a: ({node, href, ...props}) => {
+                          if (href?.startsWith("#cite-")) {
+                            const marker = parseInt(href.slice("#cite-".length));
+                            return (
+                              <CitationMarker
+                                marker={marker}
+                                citation={message.citations?.find((citation) => citation.marker === marker)}
+                              />
+                            );
+                          }
+                          return <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline" {...props} />;
+                        },
                       }}
                     >
-                      {message.content}
+                      {linkCitationMarkers(message.content)}
                     </ReactMarkdown>
                   </div>
                 ) : (
                   <p>{message.content}</p>
                 )}
 
+                {/* Unverified Statements */}
+                {message.unsupportedClaims && message.unsupportedClaims.length > 0 && (
+                  <div className="mt-4 rounded-md border border-yellow-300 bg-yellow-50 p-3 dark:border-yellow-900 dark:bg-yellow-950/30">
+                    <div className="flex items-center gap-2 mb-2">
+                      <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                      <span className="text-sm font-medium">
+                        {message.unsupportedClaims.length} statement{message.unsupportedClaims.length === 1 ? "" : "s"} could not be verified against the retrieved Nelson text
+                      </span>
+                    </div>
+                    <ul className="ml-6 space-y-1">
+                      {message.unsupportedClaims.map((claim, index) => (
+                        <li key={index} className="list-disc text-xs text-muted-foreground">{claim}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Citations */}
                 {message.citations && message.citations.length > 0 && (
                   <div className="mt-4 pt-3 border-t border-border">
@@ -182,8 +289,9 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
                       <span className="text-sm font-medium">Citations</span>
                     </div>
                     <div className="space-y-1">
-                      {message.citations.map((citation, index) => (
-                        <p key={index} className="text-xs text-muted-foreground">
+                      {message.citations.map((citation) => (
+                        <p key={citation.marker} className="text-xs text-muted-foreground">
+                          <CitationMarker marker={citation.marker} citation={citation} />{" "}
                           <strong>Nelson Textbook of Pediatrics</strong> ({citation.edition}) - 
                           Chapter: {citation.chapter}, Section: {citation.section}
                           {citation.page && `, Pages: ${citation.page}`}
@@ -208,18 +316,20 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
                       <Button 
                         variant="ghost" 
                         size="sm"
-                        onClick={() => toast.success('Feedback recorded')}
-                        title="Helpful response"
+                        onClick={() => submitFeedback(message.id, "up")}
+                        disabled={!message.saved}
+                        title={message.saved ? "Helpful response" : "Feedback is available once the answer is saved"}
                       >
-                        <ThumbsUp className="h-4 w-4" />
+                        <ThumbsUp className={cn("h-4 w-4", message.feedback === "up" && "fill-current text-green-600")} />
                       </Button>
                       <Button 
                         variant="ghost" 
                         size="sm"
-                        onClick={() => toast.success('Feedback recorded')}
-                        title="Not helpful"
+                        onClick={() => setFeedbackMessageId(message.id)}
+                        disabled={!message.saved}
+                        title={message.saved ? "Not helpful" : "Feedback is available once the answer is saved"}
                       >
-                        <ThumbsDown className="h-4 w-4" />
+                        <ThumbsDown className={cn("h-4 w-4", message.feedback === "down" && "fill-current text-red-600")} />
                       </Button>
                       <Button 
                         variant="ghost" 
@@ -244,8 +354,8 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
             </div>
           ))}
 
-          {/* Loading Indicator */}
-          {isLoading && (
+          {/* Loading Indicator (streamed messages show their own timeline) */}
+          {isLoading && !isHydrating && !messages.some((message) => message.isStreaming) && (
             <div className="flex items-center gap-2">
               <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
                 <Stethoscope className="h-4 w-4 text-primary" />
@@ -261,7 +371,7 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
       </ScrollArea>
 
       {/* Example Questions (shown when no messages) */}
-      {messages.length <= 1 && (
+      {messages.length <= 1 && !isHydrating && (
         <div className="p-6 pt-0">
           <div className="max-w-4xl mx-auto">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
@@ -306,20 +416,29 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
                 onKeyDown={handleKeyDown}
                 placeholder="Ask me about pediatric medicine... (Press Enter to send, Shift+Enter for new line)"
                 className="min-h-[60px] max-h-[200px] pr-12 resize-none"
-                disabled={isLoading}
+                disabled={isLoading || isHydrating}
               />
-              <Button
-                type="submit"
-                size="sm"
-                disabled={!inputValue.trim() || isLoading}
-                className="absolute right-2 top-2"
-              >
-                {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
+              {isLoading ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={stopGeneration}
+                  className="absolute right-2 top-2"
+                  title="Stop generating"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={!inputValue.trim() || isHydrating}
+                  className="absolute right-2 top-2"
+                >
                   <Send className="h-4 w-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
             
             <div className="flex items-center justify-between text-xs text-muted-foreground">
@@ -341,12 +460,22 @@ export function ChatInterface({ sessionId, onSessionCreated }: ChatInterfaceProp
               </div>
               <div className="flex items-center gap-1">
                 <Clock className="h-3 w-3" />
-                <span>{isLoading ? 'Processing...' : 'Ready'}</span>
+                <span>{isHydrating ? 'Loading...' : isLoading ? 'Processing...' : 'Ready'}</span>
               </div>
             </div>
           </form>
         </div>
       </div>
+
+      <FeedbackDialog
+        open={feedbackMessageId !== null}
+        onOpenChange={(open) => !open && setFeedbackMessageId(null)}
+        onSubmit={(reasons, comment) => {
+          if (feedbackMessageId) {
+            submitFeedback(feedbackMessageId, "down", reasons, comment);
+          }
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, MessageSquare, Stethoscope, User } from "lucide-react";
+import { searchChatHistory, ChatSearchResult } from "@/lib/supabase";
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface ChatSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (result: ChatSearchResult) => void;
+}
+
+// Render a search snippet with its <mark>ed terms highlighted (as text, never as HTML)
+function renderSnippet(snippet: string): React.ReactNode {
+  return snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
+function formatResultDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Command palette (Ctrl/Cmd+K) for searching past consultations
+export function ChatSearchDialog({ open, onOpenChange, onSelect }: ChatSearchDialogProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const matches = await searchChatHistory(query);
+        if (!cancelled) setResults(matches);
+      } catch (error) {
+        console.error("Chat history search failed:", error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setQuery("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (result: ChatSearchResult) => {
+    handleOpenChange(false);
+    onSelect(result);
+  };
+
+  const sessionResults = results.filter((result) => result.message_id === null);
+  const messageResults = results.filter((result) => result.message_id !== null);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-xl">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search consultations</DialogTitle>
+          <DialogDescription>Search the messages and titles of your past consultations</DialogDescription>
+        </DialogHeader>
+        {/* Results come from Postgres full-text search, so cmdk's own filtering is off */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group]]:px-2 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            placeholder="Search past consultations..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[400px]">
+            {isSearching && (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching...
+              </div>
+            )}
+            {!isSearching && query.trim() && (
+              <CommandEmpty>No consultations match "{query.trim()}"</CommandEmpty>
+            )}
+
+            {sessionResults.length > 0 && (
+              <CommandGroup heading="Consultations">
+                {sessionResults.map((result) => (
+                  <CommandItem
+                    key={result.session_id}
+                    value={`session-${result.session_id}`}
+                    onSelect={() => handleSelect(result)}
+                  >
+                    <MessageSquare className="h-4 w-4" />
+                    <span className="flex-1 truncate">{renderSnippet(result.snippet)}</span>
+                    {result.archived && <Badge variant="outline" className="text-xs">Archived</Badge>}
+                    <span className="text-xs text-muted-foreground">{formatResultDate(result.created_at)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {messageResults.length > 0 && (
+              <CommandGroup heading="Messages">
+                {messageResults.map((result) => (
+                  <CommandItem
+                    key={result.message_id}
+                    value={`message-${result.message_id}`}
+                    onSelect={() => handleSelect(result)}
+                    className="items-start"
+                  >
+                    {result.role === "user" ? (
+                      <User className="h-4 w-4 mt-0.5" />
+                    ) : (
+                      <Stethoscope className="h-4 w-4 mt-0.5" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate">{result.session_title}</span>
+                        {result.archived && <Badge variant="outline" className="text-xs">Archived</Badge>}
+                        <span className="text-xs text-muted-foreground ml-auto">{formatResultDate(result.created_at)}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{renderSnippet(result.snippet)}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
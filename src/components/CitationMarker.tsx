@@ -0,0 +1,60 @@
+"use client";
+
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { BookOpen } from "lucide-react";
+import type { ResponseCitation } from "@/services/citations";
+
+interface CitationMarkerProps {
+  marker: number;
+  citation?: ResponseCitation;
+}
+
+export function CitationMarker({ marker, citation }: CitationMarkerProps) {
+  // Markers without a matching chunk (still streaming, or out of range) stay plain text
+  if (!citation) {
+    return <sup className="text-muted-foreground">[{marker}]</sup>;
+  }
+
+  return (
+    <Popover>
+      <sup>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="mx-0.5 font-medium text-primary hover:underline"
+            title={`Chapter ${citation.chapter} - ${citation.section}`}
+          >
+            [{marker}]
+          </button>
+        </PopoverTrigger>
+      </sup>
+      <PopoverContent className="w-96" align="start">
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="flex items-start gap-2">
+            <BookOpen className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
+            <div className="text-xs">
+              <p className="font-medium">Chapter {citation.chapter} - {citation.section}</p>
+              <p className="text-muted-foreground">
+                Nelson Textbook of Pediatrics ({citation.edition})
+                {citation.page && `, Page: ${citation.page}`}
+              </p>
+            </div>
+          </div>
+          {citation.score !== undefined && (
+            <Badge variant="outline" className="text-xs flex-shrink-0">
+              {Math.round(citation.score * 100)}% {citation.scoreSource === "rerank" ? "relevance" : "match"}
+            </Badge>
+          )}
+        </div>
+        {citation.excerpt ? (
+          <div className="max-h-60 overflow-y-auto">
+            <p className="text-xs whitespace-pre-wrap leading-relaxed">{citation.excerpt}</p>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground italic">The cited text was not saved with this message.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
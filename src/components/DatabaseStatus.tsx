@@ -15,7 +15,7 @@ import {
   Activity
 } from 'lucide-react';
 import { testDatabaseConnection, getNelsonChapters } from '@/lib/supabase';
-import { validateEmbeddingModel } from '@/services/embeddingService';
+import { checkApiHealth } from '@/services/apiClient';
 
 interface DatabaseStatus {
   connected: boolean;
@@ -23,6 +23,7 @@ interface DatabaseStatus {
   sampleChapter?: string;
   chapters?: string[];
   embeddingModelAvailable?: boolean;
+  embeddingBackend?: string;
   lastChecked?: Date;
 }
 
@@ -39,8 +40,16 @@ export function DatabaseStatus() {
       // Test database connection
       const dbStatus = await testDatabaseConnection();
       
-      // Test embedding model
-      const embeddingAvailable = await validateEmbeddingModel();
+      // Test embedding model through the API worker
+      let embeddingAvailable = false;
+      let embeddingBackend: string | undefined;
+      try {
+        const health = await checkApiHealth();
+        embeddingAvailable = health.embeddingModelAvailable;
+        embeddingBackend = health.embeddingBackend;
+      } catch (healthError) {
+        console.warn('Could not reach the API worker:', healthError);
+      }
       
       // Get sample chapters
       let chapters: string[] = [];
@@ -54,6 +63,7 @@ export function DatabaseStatus() {
         ...dbStatus,
         chapters: chapters.slice(0, 5), // Show first 5 chapters
         embeddingModelAvailable: embeddingAvailable,
+        embeddingBackend,
         lastChecked: new Date()
       });
       
@@ -169,7 +179,7 @@ export function DatabaseStatus() {
                 <div>
                   <p className="font-medium">AI Embedding Model</p>
                   <p className="text-sm text-muted-foreground">
-                    Hugging Face embedding service
+                    Embedding backend: {status.embeddingBackend || 'unknown'}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { FeedbackReason } from "@/lib/supabase";
+
+const FEEDBACK_REASONS: Array<{ value: FeedbackReason; label: string; description: string }> = [
+  { value: "inaccurate", label: "Inaccurate", description: "States something the textbook does not support" },
+  { value: "missing_citation", label: "Missing citation", description: "A claim has no or the wrong [n] reference" },
+  { value: "outdated", label: "Outdated", description: "Guidance has been superseded" },
+  { value: "unsafe", label: "Unsafe", description: "Could lead to harm, e.g. a wrong dose" },
+  { value: "not_helpful", label: "Not helpful", description: "Does not answer the question" },
+];
+
+interface FeedbackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (reasons: FeedbackReason[], comment: string) => void;
+}
+
+// Reason picker shown for a thumbs-down rating
+export function FeedbackDialog({ open, onOpenChange, onSubmit }: FeedbackDialogProps) {
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReasons([]);
+      setComment("");
+    }
+  }, [open]);
+
+  const toggleReason = (reason: FeedbackReason, checked: boolean) => {
+    setReasons((prev) => checked ? [...prev, reason] : prev.filter((item) => item !== reason));
+  };
+
+  const handleSubmit = () => {
+    onSubmit(reasons, comment);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>What was wrong with this answer?</DialogTitle>
+          <DialogDescription>
+            Your feedback is reviewed together with the question and the textbook passages used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {FEEDBACK_REASONS.map((reason) => (
+            <div key={reason.value} className="flex items-start gap-3">
+              <Checkbox
+                id={`feedback-${reason.value}`}
+                checked={reasons.includes(reason.value)}
+                onCheckedChange={(checked) => toggleReason(reason.value, checked === true)}
+              />
+              <Label htmlFor={`feedback-${reason.value}`} className="flex flex-col items-start gap-0.5 font-normal">
+                <span className="font-medium">{reason.label}</span>
+                <span className="text-xs text-muted-foreground">{reason.description}</span>
+              </Label>
+            </div>
+          ))}
+
+          <Textarea
+            placeholder="Anything else? (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={2000}
+            className="min-h-[80px]"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={reasons.length === 0 && !comment.trim()}>
+            Send feedback
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -28,10 +28,26 @@ import {
   Database,
 } from "lucide-react";
 import { DatabaseStatus } from "@/components/DatabaseStatus";
-import { testDatabaseConnection } from "@/lib/supabase";
+import { ProfileDialog } from "@/components/ProfileDialog";
+import { testDatabaseConnection, UserProfile } from "@/lib/supabase";
 
-export function MedicalHeader() {
+interface MedicalHeaderProps {
+  user: UserProfile;
+  onSignOut: () => void;
+}
+
+// Initials for the avatar: first and last name, or the start of the email address
+function getInitials(user: UserProfile): string {
+  const words = user.name.trim().replace(/^dr\.?\s+/i, "").split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    return (words[0][0] + (words.length > 1 ? words[words.length - 1][0] : "")).toUpperCase();
+  }
+  return user.email.slice(0, 2).toUpperCase();
+}
+
+export function MedicalHeader({ user, onSignOut }: MedicalHeaderProps) {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [profileOpen, setProfileOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [databaseConnected, setDatabaseConnected] = useState<boolean | null>(null);
 
@@ -50,13 +66,7 @@ export function MedicalHeader() {
     checkDatabase();
   }, []);
 
-  // Mock user data - in production this would come from authentication
-  const user = {
-    name: "Dr. Sarah Chen",
-    title: "Pediatric Resident",
-    institution: "Children's Hospital of Philadelphia",
-    initials: "SC",
-  };
+  const initials = getInitials(user);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -158,7 +168,7 @@ export function MedicalHeader() {
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="relative h-10 w-10 rounded-full">
               <div className="h-8 w-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-medium">
-                {user.initials}
+                {initials}
               </div>
             </Button>
           </DropdownMenuTrigger>
@@ -167,19 +177,26 @@ export function MedicalHeader() {
               <div className="flex flex-col space-y-2">
                 <div className="flex items-center gap-2">
                   <div className="h-10 w-10 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-medium">
-                    {user.initials}
+                    {initials}
                   </div>
                   <div className="flex flex-col">
-                    <p className="text-sm font-medium leading-none">{user.name}</p>
+                    <p className="text-sm font-medium leading-none">{user.name || user.email}</p>
                     <p className="text-xs leading-none text-muted-foreground mt-1">
-                      {user.title}
+                      {user.name ? user.email : "Add your name in Profile"}
                     </p>
                   </div>
                 </div>
                 <div className="bg-muted/50 rounded-lg p-3">
-                  <p className="text-xs text-muted-foreground">
-                    <strong>Institution:</strong> {user.institution}
-                  </p>
+                  {user.title && (
+                    <p className="text-xs text-muted-foreground">
+                      <strong>Title:</strong> {user.title}
+                    </p>
+                  )}
+                  {user.institution && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      <strong>Institution:</strong> {user.institution}
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground mt-1">
                     <strong>Session:</strong> Evidence-based responses only
                   </p>
@@ -187,7 +204,7 @@ export function MedicalHeader() {
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
-            <DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setProfileOpen(true)}>
               <User className="mr-2 h-4 w-4" />
               <span>Profile</span>
             </DropdownMenuItem>
@@ -196,12 +213,14 @@ export function MedicalHeader() {
               <span>Settings</span>
             </DropdownMenuItem>
             <DropdownMenuSeparator />
-            <DropdownMenuItem className="text-red-600">
+            <DropdownMenuItem className="text-red-600" onSelect={onSignOut}>
               <LogOut className="mr-2 h-4 w-4" />
               <span>Log out</span>
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+
+        <ProfileDialog user={user} open={profileOpen} onOpenChange={setProfileOpen} />
       </div>
     </header>
   );
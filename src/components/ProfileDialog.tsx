@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { updateUserProfile, UserProfile, UserProfileDetails } from "@/lib/supabase";
+import toast from "react-hot-toast";
+
+interface ProfileDialogProps {
+  user: UserProfile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Edit the name, title and institution shown in the header
+export function ProfileDialog({ user, open, onOpenChange }: ProfileDialogProps) {
+  const [details, setDetails] = useState<UserProfileDetails>({
+    name: user.name,
+    title: user.title,
+    institution: user.institution,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved profile each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDetails({ name: user.name, title: user.title, institution: user.institution });
+    }
+  }, [open, user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      // useAuth receives the updated user through onAuthStateChange
+      await updateUserProfile({
+        name: details.name.trim(),
+        title: details.title.trim(),
+        institution: details.institution.trim(),
+      });
+      toast.success("Profile updated");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fields: Array<{ key: keyof UserProfileDetails; label: string; placeholder: string }> = [
+    { key: "name", label: "Name", placeholder: "Dr. Jane Doe" },
+    { key: "title", label: "Title", placeholder: "Pediatric Resident" },
+    { key: "institution", label: "Institution", placeholder: "Children's Hospital" },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Profile</DialogTitle>
+          <DialogDescription>Signed in as {user.email}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`profile-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`profile-${field.key}`}
+                placeholder={field.placeholder}
+                value={details[field.key]}
+                onChange={(e) => setDetails((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              />
+            </div>
+          ))}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
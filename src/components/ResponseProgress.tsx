@@ -0,0 +1,81 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Loader2, Library } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { NelsonDocument } from "@/lib/supabase";
+import type { ProgressStep } from "@/hooks/useChat";
+
+interface ResponseProgressProps {
+  progress?: ProgressStep[];
+  sources?: NelsonDocument[];
+  isStreaming?: boolean;
+}
+
+export function ResponseProgress({ progress, sources, isStreaming }: ResponseProgressProps) {
+  const hasProgress = isStreaming && progress && progress.length > 0;
+  const hasSources = sources && sources.length > 0;
+
+  if (!hasProgress && !hasSources) {
+    return null;
+  }
+
+  const formatScore = (source: NelsonDocument) => {
+    const score = source.rerank_score ?? source.score ?? source.similarity;
+    return score !== undefined ? `${Math.round(score * 100)}%` : null;
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      {/* Pipeline Timeline */}
+      {hasProgress && (
+        <ol className="space-y-1">
+          {progress.map((step, index) => {
+            const isCurrent = index === progress.length - 1;
+            return (
+              <li
+                key={`${step.stage}-${index}`}
+                className={cn(
+                  "flex items-center gap-2 text-xs",
+                  isCurrent ? "text-foreground" : "text-muted-foreground"
+                )}
+              >
+                {isCurrent ? (
+                  <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                ) : (
+                  <CheckCircle className="h-3 w-3 text-green-600" />
+                )}
+                <span>{step.message}</span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {/* Retrieved Sources */}
+      {hasSources && (
+        <div className="rounded-md border border-border bg-muted/30 p-3">
+          <div className="flex items-center gap-2 mb-2">
+            <Library className="h-4 w-4 text-primary" />
+            <span className="text-sm font-medium">Sources</span>
+          </div>
+          <div className="space-y-1">
+            {sources.map((source) => (
+              <div key={source.id} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span className="truncate">
+                  Chapter: {source.chapter}, Section: {source.section}
+                  {source.page_number && `, Page: ${source.page_number}`}
+                </span>
+                {formatScore(source) && (
+                  <Badge variant="outline" className="text-xs flex-shrink-0">
+                    {formatScore(source)}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
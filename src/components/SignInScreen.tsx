@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, Mail, ArrowLeft, Stethoscope } from "lucide-react";
+import { sendSignInCode, verifySignInCode } from "@/lib/supabase";
+import toast from "react-hot-toast";
+
+// Length of the code in Supabase's sign-in email (Auth > Providers > Email)
+const SIGN_IN_CODE_LENGTH = 6;
+
+// Email sign-in: request a one-time code, then enter it (or follow the magic link in the same email)
+export function SignInScreen() {
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await sendSignInCode(email.trim());
+      setCodeSent(true);
+      setCode("");
+      toast.success(`Sign-in code sent to ${email.trim()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send sign-in code");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerifyCode = async (value: string = code) => {
+    if (value.length !== SIGN_IN_CODE_LENGTH) return;
+
+    setIsSubmitting(true);
+    try {
+      // useAuth picks up the new session through onAuthStateChange
+      await verifySignInCode(email.trim(), value);
+    } catch (error) {
+      setCode("");
+      toast.error(error instanceof Error ? error.message : "Invalid or expired sign-in code");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+            <Stethoscope className="h-5 w-5" />
+          </div>
+          <CardTitle>Sign in to Nelson-GPT</CardTitle>
+          <CardDescription>
+            {codeSent
+              ? `Enter the ${SIGN_IN_CODE_LENGTH}-digit code we emailed to ${email.trim()}, or open the link in that email.`
+              : "We'll email you a one-time sign-in code. Your consultations are private to your account."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!codeSent ? (
+            <form onSubmit={handleSendCode} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="sign-in-email">Email</Label>
+                <Input
+                  id="sign-in-email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="you@hospital.org"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  autoFocus
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSubmitting || !email.trim()}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                Email me a code
+              </Button>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <InputOTP
+                  maxLength={SIGN_IN_CODE_LENGTH}
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerifyCode}
+                  disabled={isSubmitting}
+                  autoFocus
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: SIGN_IN_CODE_LENGTH }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => handleVerifyCode()}
+                disabled={isSubmitting || code.length !== SIGN_IN_CODE_LENGTH}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Sign in
+              </Button>
+              <div className="flex items-center justify-between">
+                <Button variant="ghost" size="sm" onClick={() => setCodeSent(false)} disabled={isSubmitting}>
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  Change email
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleSendCode()} disabled={isSubmitting}>
+                  Resend code
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
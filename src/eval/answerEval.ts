@@ -0,0 +1,294 @@
+import { createHash } from 'node:crypto';
+import { LLMProvider } from '@/services/llmProvider';
+import { MistralMessage, NELSON_SYSTEM_PROMPT } from '@/services/mistralService';
+import { parseCitationMarkers } from '@/services/citations';
+import { RAGConfig, processNelsonQuery } from '@/services/ragService';
+import { RetrievalBackend } from '@/services/retrievalBackend';
+import { splitIntoClaims } from '@/services/verificationService';
+
+// End-to-end answer checks for prompt changes. Each case is replayed through
+// processNelsonQuery and scored on citation coverage (share of claims carrying an [n]
+// marker), abstention (declining when the context cannot answer) and forbidden content.
+// Reports are plain JSON without timestamps so two prompt versions can be diffed.
+
+export interface AnswerCase {
+  id: string;
+  question: string;
+  history?: MistralMessage[];
+  // 'abstain' when the corpus cannot answer the question (or it must be refused)
+  expect: 'answer' | 'abstain';
+  // Terms a correct answer mentions (case-insensitive)
+  requiredTerms?: string[];
+  // Extra regular expressions the answer must not match, on top of the defaults
+  forbidden?: string[];
+  // Share of claims that must cite a context chunk; defaults to DEFAULT_MIN_CITATION_COVERAGE
+  minCitationCoverage?: number;
+}
+
+export interface AnswerCaseResult {
+  id: string;
+  passed: boolean;
+  failures: string[];
+  expectedAbstention: boolean;
+  abstained: boolean;
+  citationCoverage: number;
+  invalidCitations: number[];
+  missingTerms: string[];
+  forbiddenMatches: string[];
+  confidence: string;
+  answer: string;
+  error?: string;
+}
+
+export interface AnswerEvalReport {
+  promptVersion: string;
+  // Short hash of the system prompt text, so reports name exactly which prompt ran
+  promptHash: string;
+  provider: string;
+  caseCount: number;
+  passRate: number;
+  meanCitationCoverage: number;
+  abstentionAccuracy: number;
+  forbiddenViolations: number;
+  results: AnswerCaseResult[];
+}
+
+export const DEFAULT_MIN_CITATION_COVERAGE = 0.8;
+
+// Wording the system prompt asks for when the context does not cover a question,
+// plus the pipeline's own no-results and refusal messages
+const ABSTENTION_PATTERN = new RegExp([
+  String.raw`\b(?:is not|isn't|are not|aren't)\s+(?:\w+\s+)?(?:in|covered by|included in|available in)\s+the\s+provided`,
+  String.raw`\bprovided (?:nelson textbook )?(?:context|excerpts?|content) (?:does not|doesn't) (?:contain|cover|address|include|mention)`,
+  String.raw`\bcouldn't find relevant information\b`,
+  String.raw`\bcannot provide personal medical advice\b`,
+  String.raw`\bcontact emergency services\b`
+].join('|'), 'i');
+
+// Content no answer may contain, whatever the prompt
+export const DEFAULT_FORBIDDEN_PATTERNS = [
+  // Model self-reference
+  String.raw`\bas an ai\b`,
+  // Sources other than the Nelson Textbook
+  String.raw`\b(?:uptodate|medscape|wikipedia|harrison'?s)\b`,
+  // Speculation
+  String.raw`\b(?:i think|i believe|in my opinion|i guess)\b`
+];
+
+export function isAbstention(content: string): boolean {
+  return ABSTENTION_PATTERN.test(content);
+}
+
+// Share of the answer's claims that cite at least one context chunk
+export function calculateCitationCoverage(content: string): number {
+  const claims = splitIntoClaims(content);
+  if (claims.length === 0) return 0;
+  return claims.filter(claim => claim.markers.length > 0).length / claims.length;
+}
+
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 12);
+}
+
+// Keep the first provider error of a case; the pipeline recovers from most of them silently
+function trackProviderErrors(provider: LLMProvider): { provider: LLMProvider; takeError: () => string | undefined } {
+  let firstError: string | undefined;
+  const record = (error: unknown) => {
+    firstError ??= error instanceof Error ? error.message : String(error);
+  };
+
+  return {
+    provider: {
+      name: provider.name,
+      model: provider.model,
+
+      async complete(messages, options) {
+        try {
+          return await provider.complete(messages, options);
+        } catch (error) {
+          record(error);
+          throw error;
+        }
+      },
+
+      async *stream(messages, options) {
+        try {
+          yield* provider.stream(messages, options);
+        } catch (error) {
+          record(error);
+          throw error;
+        }
+      }
+    },
+
+    takeError() {
+      const error = firstError;
+      firstError = undefined;
+      return error;
+    }
+  };
+}
+
+// Score one pipeline answer against its case
+export function scoreAnswer(
+  answerCase: AnswerCase,
+  content: string,
+  documentCount: number,
+  confidence: string
+): AnswerCaseResult {
+  const expectedAbstention = answerCase.expect === 'abstain';
+  const abstained = isAbstention(content);
+  const citationCoverage = calculateCitationCoverage(content);
+  const invalidCitations = parseCitationMarkers(content).filter(marker => marker < 1 || marker > documentCount);
+  const missingTerms = expectedAbstention
+    ? []
+    : (answerCase.requiredTerms || []).filter(term => !content.toLowerCase().includes(term.toLowerCase()));
+  const forbiddenMatches = [...DEFAULT_FORBIDDEN_PATTERNS, ...(answerCase.forbidden || [])]
+    .filter(pattern => new RegExp(pattern, 'i').test(content));
+  const minCoverage = answerCase.minCitationCoverage ?? DEFAULT_MIN_CITATION_COVERAGE;
+
+  const failures: string[] = [];
+  if (abstained !== expectedAbstention) {
+    failures.push(expectedAbstention ? 'answered instead of abstaining' : 'abstained instead of answering');
+  }
+  if (!expectedAbstention && !abstained && citationCoverage < minCoverage) {
+    failures.push(`citation coverage ${citationCoverage.toFixed(2)} < ${minCoverage}`);
+  }
+  if (invalidCitations.length > 0) {
+    failures.push(`cites missing context ${invalidCitations.map(marker => `[${marker}]`).join(', ')}`);
+  }
+  if (missingTerms.length > 0) {
+    failures.push(`missing ${missingTerms.map(term => `"${term}"`).join(', ')}`);
+  }
+  if (forbiddenMatches.length > 0) {
+    failures.push(`forbidden content /${forbiddenMatches.join('/, /')}/`);
+  }
+
+  return {
+    id: answerCase.id,
+    passed: failures.length === 0,
+    failures,
+    expectedAbstention,
+    abstained,
+    citationCoverage,
+    invalidCitations,
+    missingTerms,
+    forbiddenMatches,
+    confidence,
+    answer: content
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Replay every case through the full pipeline; cases run one at a time so recordings stay ordered
+export async function evaluateAnswers(
+  cases: AnswerCase[],
+  provider: LLMProvider,
+  options: {
+    backend?: RetrievalBackend;
+    systemPrompt?: string;
+    promptVersion?: string;
+    config?: Partial<RAGConfig>;
+  } = {}
+): Promise<AnswerEvalReport> {
+  const systemPrompt = options.systemPrompt ?? NELSON_SYSTEM_PROMPT;
+  const tracked = trackProviderErrors(provider);
+  const results: AnswerCaseResult[] = [];
+
+  for (const answerCase of cases) {
+    const response = await processNelsonQuery(answerCase.question, answerCase.history || [], {
+      ...options.config,
+      retrievalBackend: options.backend,
+      llmProvider: tracked.provider,
+      systemPrompt
+    });
+
+    const result = scoreAnswer(answerCase, response.content, response.retrievedDocuments.length, response.confidence);
+    const error = tracked.takeError();
+    results.push(error ? { ...result, passed: false, failures: [...result.failures, `provider error: ${error}`], error } : result);
+  }
+
+  const answered = results.filter(result => !result.expectedAbstention && !result.abstained);
+
+  return {
+    promptVersion: options.promptVersion ?? 'current',
+    promptHash: hashPrompt(systemPrompt),
+    provider: `${provider.name}/${provider.model}`,
+    caseCount: cases.length,
+    passRate: mean(results.map(result => (result.passed ? 1 : 0))),
+    meanCitationCoverage: mean(answered.map(result => result.citationCoverage)),
+    abstentionAccuracy: mean(results.map(result => (result.abstained === result.expectedAbstention ? 1 : 0))),
+    forbiddenViolations: results.filter(result => result.forbiddenMatches.length > 0).length,
+    results
+  };
+}
+
+function formatSummary(report: AnswerEvalReport): string[] {
+  return [
+    `pass rate            ${report.passRate.toFixed(3)}`,
+    `citation coverage    ${report.meanCitationCoverage.toFixed(3)}`,
+    `abstention accuracy  ${report.abstentionAccuracy.toFixed(3)}`,
+    `forbidden content    ${report.forbiddenViolations}`
+  ];
+}
+
+// Plain-text summary with the reasons each failing case failed
+export function formatAnswerReport(report: AnswerEvalReport): string {
+  const failed = report.results.filter(result => !result.passed);
+
+  return [
+    `Answer evaluation: ${report.caseCount} cases, prompt ${report.promptVersion} (${report.promptHash}), ${report.provider}`,
+    '',
+    ...formatSummary(report),
+    ...(failed.length > 0
+      ? ['', 'Failed:', ...failed.map(result => `  ${result.id}: ${result.failures.join('; ')}`)]
+      : [])
+  ].join('\n');
+}
+
+// Cases whose outcome changed between two reports (e.g. two prompt versions)
+export function compareAnswerReports(
+  baseline: AnswerEvalReport,
+  current: AnswerEvalReport
+): { regressions: string[]; fixes: string[]; text: string } {
+  const baselineResults = new Map(baseline.results.map(result => [result.id, result]));
+  const regressions: string[] = [];
+  const fixes: string[] = [];
+  const changes: string[] = [];
+
+  for (const result of current.results) {
+    const previous = baselineResults.get(result.id);
+    if (!previous) {
+      changes.push(`  + ${result.id} (new case, ${result.passed ? 'passes' : 'fails'})`);
+      continue;
+    }
+
+    if (previous.passed && !result.passed) {
+      regressions.push(result.id);
+      changes.push(`  ✗ ${result.id}: ${result.failures.join('; ')}`);
+    } else if (!previous.passed && result.passed) {
+      fixes.push(result.id);
+      changes.push(`  ✓ ${result.id} now passes`);
+    } else if (Math.abs(previous.citationCoverage - result.citationCoverage) >= 0.1) {
+      changes.push(`  ~ ${result.id}: citation coverage ${previous.citationCoverage.toFixed(2)} → ${result.citationCoverage.toFixed(2)}`);
+    }
+  }
+
+  const delta = (label: string, before: number, after: number) =>
+    `${label.padEnd(21)}${before.toFixed(3)} → ${after.toFixed(3)}`;
+
+  const text = [
+    `Compared with prompt ${baseline.promptVersion} (${baseline.promptHash}):`,
+    '',
+    delta('pass rate', baseline.passRate, current.passRate),
+    delta('citation coverage', baseline.meanCitationCoverage, current.meanCitationCoverage),
+    delta('abstention accuracy', baseline.abstentionAccuracy, current.abstentionAccuracy),
+    `${'forbidden content'.padEnd(21)}${baseline.forbiddenViolations} → ${current.forbiddenViolations}`,
+    ...(changes.length > 0 ? ['', ...changes] : ['', 'No case changed outcome.'])
+  ].join('\n');
+
+  return { regressions, fixes, text };
+}
@@ -0,0 +1,63 @@
+import { createHash } from 'node:crypto';
+import { LLMMessage, LLMProvider } from '@/services/llmProvider';
+
+// Record-and-replay LLM providers for answer evaluation. A live run records every
+// completion keyed by a hash of its messages; replays serve those completions offline,
+// so a changed prompt shows up as a missing recording rather than a silent live call.
+
+export type Recordings = Record<string, string>;
+
+// Stable key for a request: any change to the system prompt, context or history changes it
+export function recordingKey(messages: LLMMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(messages.map(({ role, content }) => [role, content])))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+// Wrap a live provider, storing each completion in recordings
+export function createRecordingProvider(inner: LLMProvider, recordings: Recordings): LLMProvider {
+  return {
+    name: inner.name,
+    model: inner.model,
+
+    async complete(messages, options) {
+      const content = await inner.complete(messages, options);
+      recordings[recordingKey(messages)] = content;
+      return content;
+    },
+
+    async *stream(messages, options) {
+      let content = '';
+      for await (const piece of inner.stream(messages, options)) {
+        content += piece;
+        yield piece;
+      }
+      recordings[recordingKey(messages)] = content;
+    }
+  };
+}
+
+// Serve recorded completions; requests that were never recorded fail
+export function createReplayProvider(recordings: Recordings, model: string = 'replay'): LLMProvider {
+  const lookup = (messages: LLMMessage[]) => {
+    const key = recordingKey(messages);
+    if (!(key in recordings)) {
+      throw new Error(`No recorded completion for request ${key}; record again with a live provider`);
+    }
+    return recordings[key];
+  };
+
+  return {
+    name: 'replay',
+    model,
+
+    async complete(messages) {
+      return lookup(messages);
+    },
+
+    async *stream(messages) {
+      yield lookup(messages);
+    }
+  };
+}
@@ -0,0 +1,285 @@
+import { NelsonDocument, NelsonTextbookChunk, convertChunkToDocument } from '@/lib/supabase';
+import { EmbeddingBackend, generateEmbeddings, getEmbeddingBackend } from '@/services/embeddingService';
+import { LLMProvider, getLLMProvider } from '@/services/llmProvider';
+import { RAGConfig, RetrievalStrategy, planSearchQueries, retrieveAndRerank } from '@/services/ragService';
+import { RetrievalBackend } from '@/services/retrievalBackend';
+import { Reranker, RerankerType, createBM25Reranker, createCrossEncoderReranker, createLLMReranker } from '@/services/rerankService';
+import { SpecialtyRouting } from '@/services/specialtyRouting';
+
+// Scores retrieval against a golden set of pediatric questions. Each question lists the
+// Nelson chapters (and optionally sections) a good answer must draw on; every retrieval
+// configuration is run over the set and compared on recall@k, MRR and nDCG@k.
+
+export interface ExpectedSource {
+  chapter: string;
+  section?: string;
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expected: ExpectedSource[];
+}
+
+// Fixture chunks carry the columns of nelson_textbook_chunks except the embedding
+export type FixtureChunk = Pick<NelsonTextbookChunk, 'id' | 'content' | 'chapter_title' | 'section_title' | 'page_number' | 'chunk_index'>;
+
+// A named retrieval configuration; JSON-friendly so configurations can live in a file
+export interface RetrievalEvalConfig {
+  name: string;
+  retrievalStrategy?: RetrievalStrategy;
+  reranker?: RerankerType;
+  similarityThreshold?: number;
+  vectorWeight?: number;
+  textWeight?: number;
+  rerankCandidates?: number;
+  specialtyRouting?: SpecialtyRouting;
+  rewriteQueries?: boolean;
+}
+
+export interface QuestionResult {
+  id: string;
+  retrieved: string[];
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ConfigResult {
+  config: RetrievalEvalConfig;
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  averageLatencyMs: number;
+  questions: QuestionResult[];
+}
+
+export interface RetrievalEvalReport {
+  k: number;
+  backend: string;
+  embeddingBackend: EmbeddingBackend;
+  questionCount: number;
+  results: ConfigResult[];
+}
+
+export const DEFAULT_EVAL_CONFIGS: RetrievalEvalConfig[] = [
+  { name: 'vector', retrievalStrategy: 'vector', reranker: 'none', specialtyRouting: 'off' },
+  { name: 'text', retrievalStrategy: 'text', reranker: 'none', specialtyRouting: 'off' },
+  { name: 'hybrid', retrievalStrategy: 'hybrid', reranker: 'none', specialtyRouting: 'off' },
+  { name: 'hybrid+bm25', retrievalStrategy: 'hybrid', reranker: 'bm25', specialtyRouting: 'off' },
+  { name: 'hybrid+bm25+specialty', retrievalStrategy: 'hybrid', reranker: 'bm25', specialtyRouting: 'boost' }
+];
+
+// Chunks embedded per batch when loading the fixture corpus
+const EMBEDDING_BATCH_SIZE = 16;
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesSource(doc: NelsonDocument, source: ExpectedSource): boolean {
+  return sameTitle(doc.chapter, source.chapter) && (!source.section || sameTitle(doc.section, source.section));
+}
+
+// For each rank, whether the document is the first to cover one of the expected sources.
+// Further chunks for an already-covered source earn nothing, so nDCG stays within 0-1.
+export function judgeRanking(documents: NelsonDocument[], expected: ExpectedSource[]): boolean[] {
+  const covered = new Set<number>();
+
+  return documents.map(doc => {
+    const index = expected.findIndex((source, sourceIndex) => !covered.has(sourceIndex) && matchesSource(doc, source));
+    if (index < 0) return false;
+
+    covered.add(index);
+    return true;
+  });
+}
+
+// Share of expected sources covered in the top k
+export function recallAtK(relevance: boolean[], expectedCount: number, k: number): number {
+  if (expectedCount === 0) return 0;
+  return relevance.slice(0, k).filter(Boolean).length / expectedCount;
+}
+
+// 1 / rank of the first relevant document, 0 when none was retrieved
+export function reciprocalRank(relevance: boolean[]): number {
+  const rank = relevance.indexOf(true);
+  return rank < 0 ? 0 : 1 / (rank + 1);
+}
+
+// Normalized discounted cumulative gain with binary relevance
+export function ndcgAtK(relevance: boolean[], expectedCount: number, k: number): number {
+  const dcg = relevance
+    .slice(0, k)
+    .reduce((sum, relevant, rank) => sum + (relevant ? 1 / Math.log2(rank + 2) : 0), 0);
+
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(expectedCount, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 2);
+  }
+
+  return idealDcg > 0 ? dcg / idealDcg : 0;
+}
+
+// Embed fixture chunks so they can back an in-memory retrieval backend
+export async function loadFixtureCorpus(
+  chunks: FixtureChunk[],
+  backend: EmbeddingBackend = getEmbeddingBackend()
+): Promise<NelsonDocument[]> {
+  const documents: NelsonDocument[] = [];
+
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const embeddings = await generateEmbeddings(batch.map(chunk => chunk.content), backend);
+
+    batch.forEach((chunk, index) => {
+      documents.push(convertChunkToDocument({
+        ...chunk,
+        metadata: null,
+        created_at: '',
+        embedding: embeddings[index].embedding
+      }));
+    });
+  }
+
+  return documents;
+}
+
+function resolveReranker(type: RerankerType | undefined, provider?: LLMProvider): Reranker | null {
+  switch (type ?? 'none') {
+    case 'none':
+      return null;
+    case 'bm25':
+      return createBM25Reranker();
+    case 'cross-encoder':
+      return createCrossEncoderReranker();
+    case 'llm':
+      return createLLMReranker(provider ?? getLLMProvider());
+    default:
+      throw new Error(`Unknown reranker: ${type}`);
+  }
+}
+
+// Translate an evaluation config into pipeline settings, retrieving exactly k documents
+function toRAGConfig(
+  config: RetrievalEvalConfig,
+  k: number,
+  backend: RetrievalBackend,
+  provider?: LLMProvider
+): Partial<RAGConfig> {
+  const { name: _name, reranker, ...settings } = config;
+  return {
+    ...settings,
+    maxDocuments: k,
+    reranker: resolveReranker(reranker, provider),
+    retrievalBackend: backend
+  };
+}
+
+async function evaluateQuestion(
+  question: GoldenQuestion,
+  ragConfig: Partial<RAGConfig>,
+  k: number,
+  provider?: LLMProvider
+): Promise<QuestionResult> {
+  const startedAt = performance.now();
+
+  try {
+    const searchQueries = await planSearchQueries(question.question, [], ragConfig, provider);
+    const { documents } = await retrieveAndRerank(searchQueries, ragConfig, provider);
+    const relevance = judgeRanking(documents, question.expected);
+
+    return {
+      id: question.id,
+      retrieved: documents.map(doc => `${doc.chapter} › ${doc.section}`),
+      recall: recallAtK(relevance, question.expected.length, k),
+      reciprocalRank: reciprocalRank(relevance),
+      ndcg: ndcgAtK(relevance, question.expected.length, k),
+      latencyMs: Math.round(performance.now() - startedAt)
+    };
+  } catch (error) {
+    console.warn(`Retrieval failed for question "${question.id}":`, error);
+    return {
+      id: question.id,
+      retrieved: [],
+      recall: 0,
+      reciprocalRank: 0,
+      ndcg: 0,
+      latencyMs: Math.round(performance.now() - startedAt),
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Run every configuration over the golden set; questions run one at a time for stable latencies
+export async function evaluateRetrieval(
+  questions: GoldenQuestion[],
+  configs: RetrievalEvalConfig[],
+  backend: RetrievalBackend,
+  k: number = 5,
+  provider?: LLMProvider
+): Promise<RetrievalEvalReport> {
+  const results: ConfigResult[] = [];
+
+  for (const config of configs) {
+    const ragConfig = toRAGConfig(config, k, backend, provider);
+    const questionResults: QuestionResult[] = [];
+
+    for (const question of questions) {
+      questionResults.push(await evaluateQuestion(question, ragConfig, k, provider));
+    }
+
+    results.push({
+      config,
+      recall: mean(questionResults.map(result => result.recall)),
+      mrr: mean(questionResults.map(result => result.reciprocalRank)),
+      ndcg: mean(questionResults.map(result => result.ndcg)),
+      averageLatencyMs: Math.round(mean(questionResults.map(result => result.latencyMs))),
+      questions: questionResults
+    });
+  }
+
+  return {
+    k,
+    backend: backend.name,
+    embeddingBackend: getEmbeddingBackend(),
+    questionCount: questions.length,
+    results
+  };
+}
+
+// Plain-text table of the per-configuration scores, plus the questions each one missed
+export function formatRetrievalReport(report: RetrievalEvalReport): string {
+  const nameWidth = Math.max(6, ...report.results.map(result => result.config.name.length));
+  const header = `${'config'.padEnd(nameWidth)}  recall@${report.k}  MRR     nDCG@${report.k}  avg ms`;
+
+  const rows = report.results.map(result =>
+    `${result.config.name.padEnd(nameWidth)}  ` +
+    `${result.recall.toFixed(3).padEnd(8)}  ` +
+    `${result.mrr.toFixed(3).padEnd(6)}  ` +
+    `${result.ndcg.toFixed(3).padEnd(6)}  ` +
+    `${result.averageLatencyMs}`
+  );
+
+  const misses = report.results.flatMap(result => {
+    const missed = result.questions.filter(question => question.recall < 1);
+    return missed.length > 0
+      ? [`\n${result.config.name} missed:`, ...missed.map(question => `  ${question.id}${question.error ? ` (error: ${question.error})` : ''}`)]
+      : [];
+  });
+
+  return [
+    `Retrieval evaluation: ${report.questionCount} questions, ${report.backend} backend, ${report.embeddingBackend} embeddings`,
+    '',
+    header,
+    '-'.repeat(header.length),
+    ...rows,
+    ...misses
+  ].join('\n');
+}
@@ -0,0 +1,104 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { LLMProvider, createMockProvider, getLLMProvider } from '@/services/llmProvider';
+import { createInMemoryRetrievalBackend, RetrievalBackend } from '@/services/retrievalBackend';
+import { AnswerCase, AnswerEvalReport, compareAnswerReports, evaluateAnswers, formatAnswerReport } from './answerEval';
+import { Recordings, createRecordingProvider, createReplayProvider } from './recordedProvider';
+import { FixtureChunk, loadFixtureCorpus } from './retrievalEval';
+
+// Command-line entry for the answer-quality regression suite:
+//
+//   bun run eval:answers [--cases eval/answer-cases.json] [--corpus eval/fixtures/nelson-corpus.json] [--db]
+//                        [--provider mock|live|replay] [--recordings eval/answer-recordings.json]
+//                        [--prompt prompts/v2.md] [--baseline report.json] [--out report.json]
+//
+// The default mock provider answers offline by quoting the context sentences that match the
+// question; eval/answer-baseline.json is its report on the fixture corpus with the hash
+// embedding backend. --provider live calls the configured LLM and saves its completions to
+// --recordings; replay serves them back offline. --prompt swaps in a system prompt file, and
+// --baseline compares against an earlier report, exiting non-zero when a passing case now fails.
+
+const DEFAULT_CASES_PATH = 'eval/answer-cases.json';
+const DEFAULT_CORPUS_PATH = 'eval/fixtures/nelson-corpus.json';
+const DEFAULT_RECORDINGS_PATH = 'eval/answer-recordings.json';
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, 'utf8')) as T;
+}
+
+async function readRecordings(path: string): Promise<Recordings> {
+  try {
+    return await readJson<Recordings>(path);
+  } catch {
+    return {};
+  }
+}
+
+async function main(args: string[]): Promise<void> {
+  const cases = await readJson<AnswerCase[]>(readFlag(args, 'cases') || DEFAULT_CASES_PATH);
+  const providerMode = readFlag(args, 'provider') || 'mock';
+  const recordingsPath = readFlag(args, 'recordings') || DEFAULT_RECORDINGS_PATH;
+
+  const promptPath = readFlag(args, 'prompt');
+  const systemPrompt = promptPath ? (await readFile(promptPath, 'utf8')).trim() : undefined;
+
+  let backend: RetrievalBackend | undefined;
+  if (!args.includes('--db')) {
+    const chunks = await readJson<FixtureChunk[]>(readFlag(args, 'corpus') || DEFAULT_CORPUS_PATH);
+    console.log(`Embedding ${chunks.length} fixture chunks...`);
+    backend = createInMemoryRetrievalBackend(await loadFixtureCorpus(chunks));
+  }
+
+  const recordings = await readRecordings(recordingsPath);
+  let provider: LLMProvider;
+  switch (providerMode) {
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    case 'live':
+      provider = createRecordingProvider(getLLMProvider(), recordings);
+      break;
+    case 'replay':
+      provider = createReplayProvider(recordings);
+      break;
+    default:
+      throw new Error(`Unknown provider mode: ${providerMode}`);
+  }
+
+  const report = await evaluateAnswers(cases, provider, {
+    backend,
+    systemPrompt,
+    promptVersion: promptPath ? basename(promptPath) : undefined
+  });
+  console.log(`\n${formatAnswerReport(report)}`);
+
+  if (providerMode === 'live') {
+    await writeFile(recordingsPath, `${JSON.stringify(recordings, null, 2)}\n`);
+    console.log(`\nRecordings written to ${recordingsPath}`);
+  }
+
+  const outPath = readFlag(args, 'out');
+  if (outPath) {
+    await writeFile(outPath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Report written to ${outPath}`);
+  }
+
+  const baselinePath = readFlag(args, 'baseline');
+  if (baselinePath) {
+    const comparison = compareAnswerReports(await readJson<AnswerEvalReport>(baselinePath), report);
+    console.log(`\n${comparison.text}`);
+    if (comparison.regressions.length > 0) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('Answer evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+import { writeFile } from 'node:fs/promises';
+import { FeedbackExportRow, FeedbackRating, getFeedbackExport } from '@/lib/supabase';
+
+// Command-line export of answer feedback for QA review:
+//
+//   bun run export:feedback [--since 2025-01-01] [--rating up|down] [--format jsonl|csv] [--out feedback.jsonl]
+//
+// Each row holds the rating, reasons and comment with the question, the answer, the
+// retrieved chunk ids (in prompt order) and the chunk ids the answer cited. Reads every
+// user's feedback, so it needs SUPABASE_SERVICE_KEY. Without --out the export is printed.
+
+const CSV_COLUMNS: Array<keyof FeedbackExportRow> = [
+  'feedback_id',
+  'created_at',
+  'rating',
+  'reasons',
+  'comment',
+  'session_id',
+  'message_id',
+  'question',
+  'answer',
+  'confidence',
+  'retrieved_chunk_ids',
+  'cited_chunk_ids',
+  'model'
+];
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function toCsvField(value: FeedbackExportRow[keyof FeedbackExportRow]): string {
+  const text = Array.isArray(value) ? value.join(';') : value == null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Serialize rows as JSON Lines or as CSV with list columns joined by semicolons
+function formatFeedbackExport(rows: FeedbackExportRow[], format: 'jsonl' | 'csv'): string {
+  if (format === 'csv') {
+    const lines = rows.map(row => CSV_COLUMNS.map(column => toCsvField(row[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+  }
+
+  return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+}
+
+async function main(args: string[]): Promise<void> {
+  const format = readFlag(args, 'format') === 'csv' ? 'csv' : 'jsonl';
+  const rating = readFlag(args, 'rating');
+  if (rating && rating !== 'up' && rating !== 'down') {
+    throw new Error(`Unknown rating "${rating}" (expected up or down)`);
+  }
+
+  const rows = await getFeedbackExport({
+    since: readFlag(args, 'since'),
+    rating: rating as FeedbackRating | undefined
+  });
+  const output = formatFeedbackExport(rows, format);
+
+  const outPath = readFlag(args, 'out');
+  if (outPath) {
+    await writeFile(outPath, output);
+    console.log(`Exported ${rows.length} feedback entries to ${outPath}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('Feedback export failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { createInMemoryRetrievalBackend, supabaseRetrievalBackend, RetrievalBackend } from '@/services/retrievalBackend';
+import {
+  DEFAULT_EVAL_CONFIGS,
+  FixtureChunk,
+  GoldenQuestion,
+  RetrievalEvalConfig,
+  evaluateRetrieval,
+  formatRetrievalReport,
+  loadFixtureCorpus
+} from './retrievalEval';
+
+// Command-line entry for the retrieval evaluation:
+//
+//   bun run eval:retrieval [--golden eval/golden-questions.json] [--corpus eval/fixtures/nelson-corpus.json]
+//                          [--db] [--configs configs.json] [--k 5] [--out report.json]
+//
+// --db evaluates against the configured Supabase database instead of the fixture corpus.
+// --out writes the full per-question report as JSON for diffing between runs.
+
+const DEFAULT_GOLDEN_PATH = 'eval/golden-questions.json';
+const DEFAULT_CORPUS_PATH = 'eval/fixtures/nelson-corpus.json';
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, 'utf8')) as T;
+}
+
+async function main(args: string[]): Promise<void> {
+  const k = parseInt(readFlag(args, 'k') || '5');
+  const questions = await readJson<GoldenQuestion[]>(readFlag(args, 'golden') || DEFAULT_GOLDEN_PATH);
+  const configsPath = readFlag(args, 'configs');
+  const configs = configsPath ? await readJson<RetrievalEvalConfig[]>(configsPath) : DEFAULT_EVAL_CONFIGS;
+
+  let backend: RetrievalBackend;
+  if (args.includes('--db')) {
+    backend = supabaseRetrievalBackend;
+  } else {
+    const chunks = await readJson<FixtureChunk[]>(readFlag(args, 'corpus') || DEFAULT_CORPUS_PATH);
+    console.log(`Embedding ${chunks.length} fixture chunks...`);
+    backend = createInMemoryRetrievalBackend(await loadFixtureCorpus(chunks));
+  }
+
+  const report = await evaluateRetrieval(questions, configs, backend, k);
+  console.log(`\n${formatRetrievalReport(report)}`);
+
+  const outPath = readFlag(args, 'out');
+  if (outPath) {
+    await writeFile(outPath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nReport written to ${outPath}`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('Retrieval evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabase, signOut as signOutUser, toUserProfile, UserProfile } from '@/lib/supabase';
+import toast from 'react-hot-toast';
+
+export interface UseAuthReturn {
+  user: UserProfile | null;
+  // True until the stored session (or a magic link in the URL) has been checked
+  isLoading: boolean;
+  signOut: () => Promise<void>;
+}
+
+// Track the signed-in Supabase user; every caller stays in sync through onAuthStateChange
+export function useAuth(): UseAuthReturn {
+  const [user, setUser] = useState<UserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const auth = getSupabase().auth;
+    let cancelled = false;
+
+    auth.getSession()
+      .then(({ data }) => {
+        if (!cancelled) {
+          setUser(data.session ? toUserProfile(data.session.user) : null);
+        }
+      })
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    const { data: { subscription } } = auth.onAuthStateChange((_event, session) => {
+      setUser(session ? toUserProfile(session.user) : null);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await signOutUser();
+    } catch (error) {
+      console.error('Sign out failed:', error);
+      toast.error('Failed to sign out');
+    }
+  }, []);
+
+  return { user, isLoading, signOut };
+}
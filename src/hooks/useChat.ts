@@ -1,23 +1,52 @@
-import { useState, useCallback } from 'react';
-import { streamNelsonQuery, processNelsonQuery } from '@/services/ragService';
-import { createChatSession, ChatSession, ChatMessage } from '@/lib/supabase';
-import { MistralMessage } from '@/services/mistralService';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { streamChat, sendChat } from '@/services/apiClient';
+import { saveUserTurn, saveAssistantTurn } from '@/services/chatPersistence';
+import {
+  createChatSession,
+  deleteChatMessage,
+  getChatSession,
+  getChatMessages,
+  getMessageFeedback,
+  saveMessageFeedback,
+  ChatSession,
+  ChatMessage,
+  FeedbackRating,
+  FeedbackReason,
+  MessageFeedback,
+  NelsonDocument
+} from '@/lib/supabase';
+import type { RAGResponse, RAGStage } from '@/services/ragService';
+import type { MistralMessage } from '@/services/mistralService';
+import { buildCitations, ResponseCitation } from '@/services/citations';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
 
+export interface ProgressStep {
+  stage: RAGStage;
+  message: string;
+  timestamp: Date;
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
   isStreaming?: boolean;
-  citations?: Array<{
-    chapter: string;
-    section: string;
-    page?: string;
-    edition: string;
-  }>;
+  // Generation was cancelled; content is the partial answer
+  stopped?: boolean;
+  // Answer reused from the answer cache for an identical question and sources
+  cached?: boolean;
+  // Pipeline timeline and retrieved sources, shown separately from the answer
+  progress?: ProgressStep[];
+  sources?: NelsonDocument[];
+  citations?: ResponseCitation[];
   confidence?: 'high' | 'medium' | 'low';
+  // Statements the faithfulness check could not match to the sources
+  unsupportedClaims?: string[];
+  // Stored in chat history; id is then the chat_messages id, so feedback can refer to it
+  saved?: boolean;
+  feedback?: FeedbackRating;
 }
 
 export interface UseChatOptions {
@@ -31,16 +60,88 @@ export interface UseChatOptions {
 export interface UseChatReturn {
   messages: Message[];
   isLoading: boolean;
+  isHydrating: boolean;
   error: string | null;
   currentSession: ChatSession | null;
   sendMessage: (content: string) => Promise<void>;
+  stopGeneration: () => void;
   createNewSession: (title?: string) => Promise<void>;
   clearMessages: () => void;
   regenerateLastResponse: () => Promise<void>;
   copyMessage: (messageId: string) => void;
+  submitFeedback: (messageId: string, rating: FeedbackRating, reasons?: FeedbackReason[], comment?: string) => Promise<void>;
   setMessages: (messages: Message[]) => void;
 }
 
+const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content: `# Welcome to Nelson-GPT
+
+I'm your pediatric medical AI assistant powered by the Nelson Textbook of Pediatrics.
+
+**How can I help you today?**`,
+  timestamp: new Date(),
+  confidence: 'high',
+};
+
+// Convert a persisted chat message into the shape rendered by ChatInterface
+function toMessage(chatMessage: ChatMessage): Message {
+  return {
+    id: chatMessage.id,
+    role: chatMessage.role,
+    content: chatMessage.content,
+    timestamp: new Date(chatMessage.created_at),
+    citations: chatMessage.citations?.map((citation, index) => ({
+      marker: citation.marker ?? index + 1,
+      documentId: citation.document_id,
+      chapter: citation.chapter,
+      section: citation.section,
+      page: citation.page_number?.toString(),
+      edition: citation.edition,
+      excerpt: citation.excerpt || '',
+      score: citation.relevance_score,
+      scoreSource: citation.score_source,
+    })),
+    confidence: chatMessage.confidence,
+    stopped: chatMessage.metadata?.status === 'stopped',
+    cached: chatMessage.metadata?.cached === true,
+    unsupportedClaims: chatMessage.metadata?.verification?.unsupportedClaims,
+    saved: true,
+  };
+}
+
+// Response saved and shown when the user stops generation mid-stream. Keeps the sources and
+// citations received so far; citations normally arrive after the last token, so the partial
+// text's [n] markers are resolved against the sources instead.
+function buildStoppedResponse(
+  content: string,
+  sources: NelsonDocument[],
+  citations: ResponseCitation[],
+  startTime: number
+): RAGResponse {
+  return {
+    content: content || '*Generation stopped before a response was produced.*',
+    confidence: 'low',
+    citations: citations.length > 0 ? citations : buildCitations(content, sources),
+    retrievedDocuments: sources,
+    processingTime: Date.now() - startTime,
+    stopped: true,
+    metadata: { retrievedDocumentIds: sources.map(source => source.id) },
+  };
+}
+
+// History sent with a question: the turns before it, without the welcome message
+function buildConversationHistory(priorMessages: Message[]): MistralMessage[] {
+  return priorMessages
+    .filter(msg => msg.id !== 'welcome') // Exclude welcome message
+    .slice(-20) // The server trims history to its prompt token budget
+    .map(msg => ({
+      role: msg.role,
+      content: msg.content
+    }));
+}
+
 export function useChat(options: UseChatOptions = {}): UseChatReturn {
   const {
     enableStreaming = true,
@@ -50,75 +151,175 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     onSessionCreated
   } = options;
 
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: `# Welcome to Nelson-GPT
-
-I'm your pediatric medical AI assistant powered by the Nelson Textbook of Pediatrics.
-
-**How can I help you today?**`,
-      timestamp: new Date(),
-      confidence: 'high',
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
 
   const [isLoading, setIsLoading] = useState(false);
+  const [isHydrating, setIsHydrating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
 
+  // Tracks the active session without re-running the hydration effect when it changes
+  const currentSessionIdRef = useRef<string | undefined>(undefined);
+  currentSessionIdRef.current = currentSession?.id;
+
+  // Cancels the in-flight request when the user presses Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Don't keep generating for a chat that is no longer mounted
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Load the persisted conversation whenever a different session is selected
+  useEffect(() => {
+    if (!sessionId) {
+      if (currentSessionIdRef.current) {
+        setMessages([WELCOME_MESSAGE]);
+        setCurrentSession(null);
+        setError(null);
+      }
+      return;
+    }
+
+    // Sessions created by this hook are already on screen
+    if (sessionId === currentSessionIdRef.current) return;
+
+    let cancelled = false;
+
+    const hydrateSession = async () => {
+      setIsHydrating(true);
+      setError(null);
+
+      try {
+        const [session, chatMessages] = await Promise.all([
+          getChatSession(sessionId),
+          getChatMessages(sessionId),
+        ]);
+
+        // Ratings are optional decoration; a failed lookup still shows the conversation
+        const feedback = await getMessageFeedback(
+          chatMessages.filter(message => message.role === 'assistant').map(message => message.id)
+        ).catch((feedbackError): MessageFeedback[] => {
+          console.warn('Failed to load message feedback:', feedbackError);
+          return [];
+        });
+
+        if (cancelled) return;
+
+        const ratings = new Map(feedback.map(item => [item.message_id, item.rating]));
+        setCurrentSession(session);
+        setMessages([
+          WELCOME_MESSAGE,
+          ...chatMessages.map(chatMessage => ({ ...toMessage(chatMessage), feedback: ratings.get(chatMessage.id) })),
+        ]);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load session:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load consultation');
+        toast.error('Failed to load consultation');
+      } finally {
+        if (!cancelled) {
+          setIsHydrating(false);
+        }
+      }
+    };
+
+    hydrateSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
   const clearMessages = useCallback(() => {
-    setMessages([messages[0]]); // Keep welcome message
+    setMessages([WELCOME_MESSAGE]);
     setCurrentSession(null);
     setError(null);
-  }, [messages]);
+  }, []);
+
+  // Create and activate a session without touching the messages on screen
+  const startSession = useCallback(async (title: string): Promise<ChatSession> => {
+    const session = await createChatSession(title);
+    currentSessionIdRef.current = session.id;
+    setCurrentSession(session);
+    if (onSessionCreated) {
+      onSessionCreated(session.id);
+    }
+    return session;
+  }, [onSessionCreated]);
 
   const createNewSession = useCallback(async (title?: string) => {
     try {
       const sessionTitle = title || `Medical Consultation - ${new Date().toLocaleDateString()}`;
-      const session = await createChatSession(sessionTitle);
-      setCurrentSession(session);
       clearMessages();
-      if (onSessionCreated) {
-        onSessionCreated(session.id);
-      }
+      await startSession(sessionTitle);
       toast.success('New consultation session created');
     } catch (err) {
       console.error('Failed to create session:', err);
       toast.error('Failed to create new session');
     }
-  }, [clearMessages, onSessionCreated]);
-
-  const buildConversationHistory = useCallback((): MistralMessage[] => {
-    return messages
-      .filter(msg => msg.id !== 'welcome') // Exclude welcome message
-      .slice(-6) // Keep last 6 messages for context
-      .map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
-  }, [messages]);
+  }, [clearMessages, startSession]);
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || isLoading) return;
+  // Save a message to chat history if a session is active; a failed save never fails the answer.
+  // The on-screen message then takes its stored id. Resolves to whether it was saved.
+  const persistMessage = useCallback(async (
+    activeSessionId: string | undefined,
+    localId: string,
+    save: (sessionId: string) => Promise<ChatMessage>
+  ): Promise<boolean> => {
+    if (!activeSessionId) return false;
+
+    try {
+      const savedMessage = await save(activeSessionId);
+      setMessages(prev =>
+        prev.map(msg => msg.id === localId ? { ...msg, id: savedMessage.id, saved: true } : msg)
+      );
+      return true;
+    } catch (saveError) {
+      console.error('Failed to save chat message:', saveError);
+      return false;
+    }
+  }, []);
+
+  // Answer a question already on screen, given the messages before it. The question is
+  // saved first unless it is already stored (as it is when regenerating).
+  const answerQuestion = useCallback(async (userMessage: Message, priorMessages: Message[]) => {
+    const content = userMessage.content;
 
     setIsLoading(true);
     setError(null);
 
-    const userMessage: Message = {
-      id: uuidv4(),
-      role: 'user',
-      content: content.trim(),
-      timestamp: new Date(),
-    };
-
-    // Add user message immediately
-    setMessages(prev => [...prev, userMessage]);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const startTime = Date.now();
 
     try {
-      const conversationHistory = buildConversationHistory();
-      const sessionId = currentSession?.id;
+      const conversationHistory = buildConversationHistory(priorMessages);
+      let activeSessionId = currentSession?.id;
+
+      // Auto-create session if none exists so this exchange is persisted
+      if (!activeSessionId && autoSave) {
+        try {
+          const sessionTitle = content.length > 50 
+            ? content.substring(0, 47) + '...' 
+            : content;
+          activeSessionId = (await startSession(sessionTitle)).id;
+        } catch (err) {
+          console.error('Failed to auto-create session:', err);
+        }
+      }
+
+      // Save the question before generating, so it survives a failed or stopped answer.
+      // The answer is only saved after its question, keeping the history in order.
+      const questionSaved = userMessage.saved || await persistMessage(
+        activeSessionId,
+        userMessage.id,
+        sessionId => saveUserTurn(sessionId, content)
+      );
+      const persistAnswer = async (response: RAGResponse, localId: string) => {
+        if (!questionSaved) return;
+        await persistMessage(activeSessionId, localId, sessionId => saveAssistantTurn(sessionId, response));
+      };
 
       if (enableStreaming) {
         // Streaming response
@@ -133,30 +334,67 @@ I'm your pediatric medical AI assistant powered by the Nelson Textbook of Pediat
         // Add empty streaming message
         setMessages(prev => [...prev, streamingMessage]);
 
-        const responseGenerator = streamNelsonQuery(
-          content,
-          sessionId,
+        const responseGenerator = streamChat({
+          query: content,
           conversationHistory
-        );
+        }, abortController.signal);
+
+        let finalResponse: RAGResponse;
+        let pipelineFailed = false;
+
+        // Mirrors the streamed state so a stopped answer can be saved as-is
+        let streamedContent = '';
+        let streamedSources: NelsonDocument[] = [];
+        const streamedCitations: ResponseCitation[] = [];
+
+        const updateStreamingMessage = (update: (msg: Message) => Partial<Message>) => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === streamingMessage.id
+                ? { ...msg, ...update(msg) }
+                : msg
+            )
+          );
+        };
 
-        let fullContent = '';
-        let finalResponse: any = null;
-
-        for await (const chunk of responseGenerator) {
-          if (typeof chunk === 'string') {
-            fullContent += chunk;
-            
-            // Update the streaming message with accumulated content
-            setMessages(prev => 
-              prev.map(msg => 
-                msg.id === streamingMessage.id 
-                  ? { ...msg, content: fullContent }
-                  : msg
-              )
-            );
-          } else {
-            finalResponse = chunk;
+        try {
+          while (true) {
+            const { value: event, done } = await responseGenerator.next();
+            if (done) {
+              finalResponse = event;
+              break;
+            }
+
+            switch (event.type) {
+              case 'status':
+                updateStreamingMessage(msg => ({
+                  progress: [...(msg.progress || []), { stage: event.stage, message: event.message, timestamp: new Date() }]
+                }));
+                break;
+              case 'retrieval':
+                streamedSources = event.documents;
+                updateStreamingMessage(() => ({ sources: event.documents }));
+                break;
+              case 'token':
+                // Update the streaming message with accumulated content
+                streamedContent += event.content;
+                updateStreamingMessage(msg => ({ content: msg.content + event.content }));
+                break;
+              case 'citation':
+                streamedCitations.push(event.citation);
+                updateStreamingMessage(msg => ({ citations: [...(msg.citations || []), event.citation] }));
+                break;
+              case 'error':
+                pipelineFailed = true;
+                setError(event.message);
+                break;
+            }
+          }
+        } catch (streamError) {
+          if (!abortController.signal.aborted) {
+            throw streamError;
           }
+          finalResponse = buildStoppedResponse(streamedContent, streamedSources, streamedCitations, startTime);
         }
 
         // Final update with complete message
@@ -165,22 +403,28 @@ I'm your pediatric medical AI assistant powered by the Nelson Textbook of Pediat
             msg.id === streamingMessage.id
               ? {
                   ...msg,
-                  content: finalResponse?.content || fullContent,
+                  content: finalResponse.content,
                   isStreaming: false,
-                  citations: finalResponse?.citations,
-                  confidence: finalResponse?.confidence,
+                  citations: finalResponse.citations,
+                  confidence: finalResponse.confidence,
+                  stopped: finalResponse.stopped,
+                  cached: finalResponse.cached,
+                  unsupportedClaims: finalResponse.verification?.unsupportedClaims,
                 }
               : msg
           )
         );
 
+        if (!pipelineFailed) {
+          await persistAnswer(finalResponse, streamingMessage.id);
+        }
+
       } else {
         // Non-streaming response
-        const response = await processNelsonQuery(
-          content,
-          sessionId,
+        const response = await sendChat({
+          query: content,
           conversationHistory
-        );
+        }, abortController.signal);
 
         const assistantMessage: Message = {
           id: uuidv4(),
@@ -189,24 +433,19 @@ I'm your pediatric medical AI assistant powered by the Nelson Textbook of Pediat
           timestamp: new Date(),
           citations: response.citations,
           confidence: response.confidence,
+          cached: response.cached,
+          unsupportedClaims: response.verification?.unsupportedClaims,
         };
 
         setMessages(prev => [...prev, assistantMessage]);
-      }
 
-      // Auto-create session if none exists
-      if (!currentSession && autoSave) {
-        try {
-          const sessionTitle = content.length > 50 
-            ? content.substring(0, 47) + '...' 
-            : content;
-          await createNewSession(sessionTitle);
-        } catch (err) {
-          console.error('Failed to auto-create session:', err);
-        }
+        await persistAnswer(response, assistantMessage.id);
       }
 
     } catch (err) {
+      // Stopping a non-streaming request leaves nothing to show or save
+      if (abortController.signal.aborted) return;
+
       console.error('Chat error:', err);
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
       setError(errorMessage);
@@ -227,30 +466,60 @@ Please try:
       setMessages(prev => [...prev, errorAssistantMessage]);
       toast.error('Failed to get response');
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
-  }, [isLoading, currentSession, enableStreaming, autoSave, buildConversationHistory, createNewSession]);
+  }, [currentSession, enableStreaming, autoSave, startSession, persistMessage]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    if (!content.trim() || isLoading || isHydrating) return;
 
+    const userMessage: Message = {
+      id: uuidv4(),
+      role: 'user',
+      content: content.trim(),
+      timestamp: new Date(),
+    };
+
+    // Add user message immediately
+    setMessages(prev => [...prev, userMessage]);
+
+    await answerQuestion(userMessage, messages);
+  }, [isLoading, isHydrating, messages, answerQuestion]);
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Answer the last question again. The stored question is reused, and the answers it
+  // replaces are removed from the chat and from history (their feedback goes with them).
   const regenerateLastResponse = useCallback(async () => {
-    const lastUserMessage = messages
-      .slice()
-      .reverse()
-      .find(msg => msg.role === 'user');
+    if (isLoading || isHydrating) return;
 
-    if (!lastUserMessage) {
+    const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+    if (lastUserIndex < 0) {
       toast.error('No user message found to regenerate response');
       return;
     }
 
-    // Remove the last assistant message
-    setMessages(prev => 
-      prev.filter((_, index) => 
-        index !== prev.length - 1 || prev[prev.length - 1].role !== 'assistant'
-      )
-    );
+    const lastUserMessage = messages[lastUserIndex];
+    const replacedIds = new Set(messages.slice(lastUserIndex + 1).map(msg => msg.id));
+    const replacedSaved = messages.slice(lastUserIndex + 1).filter(msg => msg.saved);
+
+    setMessages(prev => prev.filter(msg => !replacedIds.has(msg.id)));
+
+    for (const replaced of replacedSaved) {
+      try {
+        await deleteChatMessage(replaced.id);
+      } catch (deleteError) {
+        console.error('Failed to delete replaced answer:', deleteError);
+      }
+    }
 
-    await sendMessage(lastUserMessage.content);
-  }, [messages, sendMessage]);
+    await answerQuestion(lastUserMessage, messages.slice(0, lastUserIndex));
+  }, [isLoading, isHydrating, messages, answerQuestion]);
 
   const copyMessage = useCallback((messageId: string) => {
     const message = messages.find(msg => msg.id === messageId);
@@ -260,16 +529,41 @@ Please try:
     }
   }, [messages]);
 
+  // Rate a saved assistant message; the rating shows immediately and is reverted if saving fails
+  const submitFeedback = useCallback(async (
+    messageId: string,
+    rating: FeedbackRating,
+    reasons: FeedbackReason[] = [],
+    comment?: string
+  ) => {
+    const previous = messages.find(msg => msg.id === messageId)?.feedback;
+    const setRating = (feedback: FeedbackRating | undefined) =>
+      setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, feedback } : msg));
+
+    setRating(rating);
+    try {
+      await saveMessageFeedback(messageId, rating, reasons, comment);
+      toast.success('Thanks for your feedback');
+    } catch (err) {
+      console.error('Failed to save feedback:', err);
+      setRating(previous);
+      toast.error('Failed to save feedback');
+    }
+  }, [messages]);
+
   return {
     messages,
     isLoading,
+    isHydrating,
     error,
     currentSession,
     sendMessage,
+    stopGeneration,
     createNewSession,
     clearMessages,
     regenerateLastResponse,
     copyMessage,
+    submitFeedback,
     setMessages,
   };
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { createHash } from 'node:crypto';
+import {
+  NelsonChunkRow,
+  ChunkFingerprint,
+  deleteNelsonChunksFrom,
+  getChunksNeedingReembedding,
+  getNelsonChunkFingerprints,
+  updateChunkEmbedding,
+  upsertNelsonChunks
+} from '@/lib/supabase';
+import { generateEmbeddings, getEmbeddingModel } from '@/services/embeddingService';
+import { chunkText } from '@/services/textChunker';
+import { ExportFormat, ParsedSection, parseChapterExport } from './parseChapterExport';
+
+// Builds nelson_textbook_chunks rows from a chapter export: sections are chunked
+// separately so no chunk crosses a heading, chunk_index runs through each chapter in
+// reading order (context expansion relies on it), and every row records where it came from.
+// Re-ingestion is incremental: chunks whose content hash and embedding model match the
+// stored row are not embedded again.
+
+export interface IngestOptions {
+  edition: string;
+  // Chapter title for exports without a level-1 heading (defaults to the file name)
+  chapter?: string;
+  maxChunkSize: number;
+  overlap: number;
+  // Re-embed every chunk, even when its stored hash and model match
+  force?: boolean;
+}
+
+export interface IngestSource {
+  file: string;
+  content: string;
+  format: ExportFormat;
+}
+
+export interface IngestedChapter {
+  chapter: string;
+  chunks: number;
+  // Chunks embedded and written because they are new or their content or model changed
+  embedded: number;
+  // Chunks with unchanged content whose section or page was updated
+  updated: number;
+  // Stale chunks deleted because the chapter now has fewer chunks
+  removed: number;
+}
+
+export type ChunkDraft = Omit<NelsonChunkRow, 'embedding'>;
+
+export const DEFAULT_INGEST_OPTIONS: IngestOptions = {
+  edition: '22nd Edition',
+  maxChunkSize: 500,
+  overlap: 50
+};
+
+// Embedding requests per batch, and rows per upsert
+const EMBEDDING_BATCH_SIZE = 16;
+const UPSERT_BATCH_SIZE = 50;
+
+function pageAt(section: ParsedSection, offset: number): number | null {
+  let page = section.page;
+  for (const pageBreak of section.pageBreaks) {
+    if (pageBreak.offset > offset) break;
+    page = pageBreak.page;
+  }
+  return page;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Chunk every section of an export into rows without embeddings
+export function buildChunkDrafts(source: IngestSource, options: IngestOptions): ChunkDraft[] {
+  const defaultChapter = options.chapter || source.file.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  const sections = parseChapterExport(source.content, source.format, defaultChapter);
+  const sourceHash = hashContent(source.content);
+  const nextIndex = new Map<string, number>();
+  const drafts: ChunkDraft[] = [];
+
+  for (const section of sections) {
+    const chunks = chunkText(section.text, { maxChunkSize: options.maxChunkSize, overlap: options.overlap });
+
+    for (const { content, headingPath, startOffset } of chunks) {
+      const chunkIndex = nextIndex.get(section.chapter) ?? 0;
+      nextIndex.set(section.chapter, chunkIndex + 1);
+
+      drafts.push({
+        chapter_title: section.chapter,
+        section_title: section.section,
+        page_number: pageAt(section, startOffset),
+        chunk_index: chunkIndex,
+        content,
+        metadata: {
+          edition: options.edition,
+          heading_path: [...section.headingPath, ...headingPath],
+          source_file: source.file,
+          source_hash: sourceHash,
+          content_hash: hashContent(content)
+        }
+      });
+    }
+  }
+
+  return drafts;
+}
+
+// Embed drafts with the configured model; fallback hash vectors are never stored
+export async function embedChunkDrafts(drafts: ChunkDraft[]): Promise<NelsonChunkRow[]> {
+  const model = getEmbeddingModel();
+  const rows: NelsonChunkRow[] = [];
+
+  for (let start = 0; start < drafts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = drafts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const embeddings = await generateEmbeddings(batch.map(draft => draft.content));
+
+    if (embeddings.some(response => response.model !== model)) {
+      throw new Error(`Embedding model ${model} is unavailable; refusing to store fallback vectors`);
+    }
+
+    batch.forEach((draft, index) => {
+      rows.push({
+        ...draft,
+        embedding: embeddings[index].embedding,
+        metadata: { ...draft.metadata, embedding_model: model }
+      });
+    });
+  }
+
+  return rows;
+}
+
+// Whether a stored chunk still matches its draft: same text embedded with the current model
+function isCurrent(draft: ChunkDraft, stored: ChunkFingerprint | undefined, model: string): boolean {
+  return stored?.content_hash === draft.metadata?.content_hash && stored?.embedding_model === model;
+}
+
+async function upsertInBatches(rows: Parameters<typeof upsertNelsonChunks>[0]): Promise<void> {
+  for (let start = 0; start < rows.length; start += UPSERT_BATCH_SIZE) {
+    await upsertNelsonChunks(rows.slice(start, start + UPSERT_BATCH_SIZE));
+  }
+}
+
+// Chunk and store one export, embedding only the chunks that changed since the last run
+export async function ingestChapterExport(
+  source: IngestSource,
+  options: IngestOptions = DEFAULT_INGEST_OPTIONS
+): Promise<IngestedChapter[]> {
+  const drafts = buildChunkDrafts(source, options);
+  const chapters = [...new Set(drafts.map(draft => draft.chapter_title))];
+  const model = getEmbeddingModel();
+  const ingested: IngestedChapter[] = [];
+
+  for (const chapter of chapters) {
+    const chapterDrafts = drafts.filter(draft => draft.chapter_title === chapter);
+    const stored = new Map(
+      options.force ? [] : (await getNelsonChunkFingerprints(chapter)).map(fingerprint => [fingerprint.chunk_index, fingerprint])
+    );
+
+    const changed = chapterDrafts.filter(draft => !isCurrent(draft, stored.get(draft.chunk_index ?? -1), model));
+    // Same text under a new heading or page: update the row but keep its vector
+    const moved = chapterDrafts.filter(draft => {
+      const fingerprint = stored.get(draft.chunk_index ?? -1);
+      return isCurrent(draft, fingerprint, model) &&
+        (fingerprint?.section_title !== draft.section_title || fingerprint?.page_number !== draft.page_number);
+    });
+
+    await upsertInBatches(await embedChunkDrafts(changed));
+    await upsertInBatches(moved.map(draft => ({ ...draft, metadata: { ...draft.metadata, embedding_model: model } })));
+
+    const removed = await deleteNelsonChunksFrom(chapter, chapterDrafts.length);
+    ingested.push({ chapter, chunks: chapterDrafts.length, embedded: changed.length, updated: moved.length, removed });
+  }
+
+  return ingested;
+}
+
+// Re-embed stored chunks made with another model (after changing VITE_EMBEDDING_MODEL)
+export async function reembedChunks(
+  options: { chapter?: string; batchSize?: number; onProgress?: (done: number) => void } = {}
+): Promise<number> {
+  const model = getEmbeddingModel();
+  const batchSize = options.batchSize ?? EMBEDDING_BATCH_SIZE;
+  let done = 0;
+
+  // Updated chunks drop out of the query, so each pass fetches the next batch
+  for (;;) {
+    const chunks = await getChunksNeedingReembedding(model, batchSize, options.chapter);
+    if (chunks.length === 0) {
+      return done;
+    }
+
+    const embeddings = await generateEmbeddings(chunks.map(chunk => chunk.content));
+    if (embeddings.some(response => response.model !== model)) {
+      throw new Error(`Embedding model ${model} is unavailable; refusing to store fallback vectors`);
+    }
+
+    for (const [index, chunk] of chunks.entries()) {
+      await updateChunkEmbedding(chunk.id, embeddings[index].embedding, {
+        ...chunk.metadata,
+        content_hash: chunk.metadata?.content_hash ?? hashContent(chunk.content),
+        embedding_model: model
+      });
+    }
+
+    done += chunks.length;
+    options.onProgress?.(done);
+  }
+}
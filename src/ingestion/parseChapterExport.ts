@@ -0,0 +1,185 @@
+// Turns Nelson chapter exports (Markdown, HTML or plain text) into heading-scoped sections.
+// Chapters come from level-1 headings (or "Chapter N ..." lines in plain text), sections
+// from level-2 headings (or ALL CAPS lines); deeper headings start a new section that keeps
+// its parent's section title. Page markers such as "[Page 1432]", "<!-- page 1432 -->" or a
+// bare "Page 1432" line are removed from the text and remembered as page breaks.
+
+export type ExportFormat = 'markdown' | 'html' | 'text';
+
+export interface PageBreak {
+  // Character offset in the section text where the page starts
+  offset: number;
+  page: number;
+}
+
+export interface ParsedSection {
+  chapter: string;
+  section: string | null;
+  // Headings from the chapter down to this section
+  headingPath: string[];
+  text: string;
+  // Page in effect where the section starts, then each page change inside it
+  page: number | null;
+  pageBreaks: PageBreak[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const PAGE_MARKER_PATTERN = /^\s*(?:\[\s*page\s*:?\s*(\d+)\s*\]|<!--\s*page\s*:?\s*(\d+)\s*-->|page\s+(\d+))\s*$/i;
+const TEXT_CHAPTER_PATTERN = /^\s*chapter\s+\d+\b.*$/i;
+// ALL CAPS lines of up to 80 characters without a closing full stop
+const TEXT_SECTION_PATTERN = /^(?=[^a-z]*[A-Z]{3})[^a-z.]{3,80}$/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  deg: '°',
+  micro: 'µ',
+  plusmn: '±',
+  le: '≤',
+  ge: '≥'
+};
+
+// Work out the export format from the file extension
+export function detectExportFormat(path: string): ExportFormat {
+  const extension = path.toLowerCase().split('.').pop();
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'html' || extension === 'htm') return 'html';
+  return 'text';
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1)));
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '');
+}
+
+// Convert an HTML export to the Markdown structure the parser understands
+export function htmlToMarkdown(html: string): string {
+  const markdown = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--\s*page\s*:?\s*(\d+)\s*-->/gi, '\n[Page $1]\n')
+    .replace(/<[^>]*\bdata-page(?:-number)?="(\d+)"[^>]*>/gi, '\n[Page $1]\n')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${'#'.repeat(parseInt(level))} ${stripTags(text).replace(/\s+/g, ' ').trim()}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<tr[^>]*>/gi, '\n|')
+    .replace(/<\/t[dh]>/gi, ' |')
+    .replace(/<t[dh][^>]*>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|ul|ol|table|section|article|blockquote)>/gi, '\n\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(markdown)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Mark plain-text chapter and section headings with Markdown heading syntax
+function textToMarkdown(text: string): string {
+  return text
+    .split('\n')
+    .map(line => {
+      if (TEXT_CHAPTER_PATTERN.test(line)) return `# ${line.trim()}`;
+      if (TEXT_SECTION_PATTERN.test(line.trim()) && !PAGE_MARKER_PATTERN.test(line)) return `## ${line.trim()}`;
+      return line;
+    })
+    .join('\n');
+}
+
+function readPageMarker(line: string): number | null {
+  const match = line.match(PAGE_MARKER_PATTERN);
+  if (!match) return null;
+  return parseInt(match[1] || match[2] || match[3]);
+}
+
+// Split an export into sections, each with its heading path and page breaks
+export function parseChapterExport(content: string, format: ExportFormat, defaultChapter: string): ParsedSection[] {
+  const markdown = format === 'html'
+    ? htmlToMarkdown(content)
+    : format === 'text' ? textToMarkdown(content) : content;
+
+  const sections: ParsedSection[] = [];
+  let chapter = defaultChapter;
+  let section: string | null = null;
+  let headingPath = [defaultChapter];
+  let lines: string[] = [];
+  let length = 0;
+  let page: number | null = null;
+  let startPage: number | null = null;
+  let pageBreaks: PageBreak[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      // Offsets were measured on the untrimmed text; shift them by the leading whitespace removed
+      const leading = lines.join('\n').length - lines.join('\n').trimStart().length;
+      sections.push({
+        chapter,
+        section,
+        headingPath,
+        text,
+        page: startPage,
+        pageBreaks: pageBreaks.map(pageBreak => ({ ...pageBreak, offset: Math.max(0, pageBreak.offset - leading) }))
+      });
+    }
+    lines = [];
+    length = 0;
+    startPage = page;
+    pageBreaks = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const pageNumber = readPageMarker(line);
+    if (pageNumber !== null) {
+      page = pageNumber;
+      if (length === 0) {
+        startPage = page;
+      } else {
+        pageBreaks.push({ offset: length, page });
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      const title = heading[2].trim();
+
+      if (level === 1) {
+        chapter = title;
+        section = null;
+        headingPath = [title];
+      } else if (level === 2) {
+        section = title;
+        headingPath = [chapter, title];
+      } else {
+        // Deeper headings stay under their section; the heading text opens the chunk
+        headingPath = [...headingPath.slice(0, level - 1), title];
+        lines.push(title);
+        length += title.length + 1;
+      }
+      continue;
+    }
+
+    lines.push(line);
+    length += line.length + 1;
+  }
+
+  flush();
+  return sections;
+}
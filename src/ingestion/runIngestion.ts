@@ -0,0 +1,65 @@
+import { readFile } from 'node:fs/promises';
+import { detectExportFormat } from './parseChapterExport';
+import { DEFAULT_INGEST_OPTIONS, IngestOptions, buildChunkDrafts, ingestChapterExport } from './ingestNelson';
+
+// Command-line entry for building nelson_textbook_chunks from chapter exports:
+//
+//   bun run ingest <file...> [--edition "22nd Edition"] [--chapter "Kawasaki Disease"]
+//                            [--max-chunk-size 500] [--overlap 50] [--force] [--dry-run]
+//
+// Files may be Markdown (.md), HTML (.html) or plain text; each file should hold whole
+// chapters, since re-ingesting a chapter replaces all of its chunks. Unchanged chunks are
+// not embedded again unless --force is given. --dry-run prints the chunks that would be
+// written without embedding or touching the database. Writes need SUPABASE_SERVICE_KEY.
+
+const VALUE_FLAGS = ['edition', 'chapter', 'max-chunk-size', 'overlap'];
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readFiles(args: string[]): string[] {
+  return args.filter((arg, index) =>
+    !arg.startsWith('--') && !VALUE_FLAGS.some(flag => args[index - 1] === `--${flag}`)
+  );
+}
+
+async function main(args: string[]): Promise<void> {
+  const files = readFiles(args);
+  if (files.length === 0) {
+    throw new Error('No chapter export files given');
+  }
+
+  const options: IngestOptions = {
+    edition: readFlag(args, 'edition') || DEFAULT_INGEST_OPTIONS.edition,
+    chapter: readFlag(args, 'chapter'),
+    maxChunkSize: parseInt(readFlag(args, 'max-chunk-size') || String(DEFAULT_INGEST_OPTIONS.maxChunkSize)),
+    overlap: parseInt(readFlag(args, 'overlap') || String(DEFAULT_INGEST_OPTIONS.overlap)),
+    force: args.includes('--force')
+  };
+  const dryRun = args.includes('--dry-run');
+
+  for (const file of files) {
+    const source = { file, content: await readFile(file, 'utf8'), format: detectExportFormat(file) };
+
+    if (dryRun) {
+      for (const draft of buildChunkDrafts(source, options)) {
+        console.log(`${draft.chapter_title} #${draft.chunk_index} | ${draft.section_title ?? '-'} | p. ${draft.page_number ?? '?'} | ${draft.content.replace(/\s+/g, ' ').slice(0, 80)}`);
+      }
+      continue;
+    }
+
+    for (const { chapter, chunks, embedded, updated, removed } of await ingestChapterExport(source, options)) {
+      console.log(
+        `${file}: ${chapter} – ${chunks} chunks, ${embedded} embedded, ${updated} updated, ` +
+        `${chunks - embedded - updated} unchanged${removed > 0 ? `, ${removed} stale chunks removed` : ''}`
+      );
+    }
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('Ingestion failed:', error);
+  process.exit(1);
+});
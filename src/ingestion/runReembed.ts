@@ -0,0 +1,32 @@
+import { getEmbeddingModel } from '@/services/embeddingService';
+import { reembedChunks } from './ingestNelson';
+
+// Command-line entry for re-embedding stored chunks after an embedding model switch:
+//
+//   VITE_EMBEDDING_MODEL=<new model> bun run reembed [--chapter "Kawasaki Disease"] [--batch-size 16]
+//
+// Every chunk whose recorded embedding model differs from VITE_EMBEDDING_MODEL (or has none
+// recorded) is embedded again. The job can be stopped and restarted; finished chunks are skipped.
+// Queries refuse the index while most of it still uses the old model. Needs SUPABASE_SERVICE_KEY.
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(args: string[]): Promise<void> {
+  const batchSize = readFlag(args, 'batch-size');
+
+  console.log(`Re-embedding Nelson chunks with ${getEmbeddingModel()}...`);
+  const total = await reembedChunks({
+    chapter: readFlag(args, 'chapter'),
+    batchSize: batchSize ? parseInt(batchSize) : undefined,
+    onProgress: done => console.log(`${done} chunks re-embedded`)
+  });
+  console.log(total > 0 ? `Done: ${total} chunks re-embedded` : 'All chunks already use this model');
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('Re-embedding failed:', error);
+  process.exit(1);
+});
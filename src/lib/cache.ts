@@ -0,0 +1,117 @@
+// Small caches shared by the API worker, Node scripts and the browser: an in-memory LRU
+// with optional expiry, and an IndexedDB store for values worth keeping across page loads.
+
+export interface LRUCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V, ttlMs?: number): void;
+  delete(key: string): void;
+  clear(): void;
+  readonly size: number;
+}
+
+export interface PersistentStore<V> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, value: V): Promise<void>;
+}
+
+// LRU cache over Map insertion order; entries expire after ttlMs when one is given
+export function createLRUCache<V>(maxEntries: number, defaultTtlMs?: number): LRUCache<V> {
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      // Re-insert so the entry becomes the most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, ttlMs = defaultTtlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : Infinity });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    }
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Key-value store in IndexedDB; null where IndexedDB is unavailable (API worker, Node).
+// Storage failures (quota, private browsing) are logged and treated as cache misses.
+export function createIndexedDBStore<V>(databaseName: string, storeName: string, maxAgeMs?: number): PersistentStore<V> | null {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  const openDatabase = () => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      database = requestToPromise(request);
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  return {
+    async get(key) {
+      try {
+        const db = await openDatabase();
+        const record = await requestToPromise(
+          db.transaction(storeName, 'readonly').objectStore(storeName).get(key)
+        ) as { value: V; storedAt: number } | undefined;
+
+        if (!record || (maxAgeMs && Date.now() - record.storedAt > maxAgeMs)) {
+          return undefined;
+        }
+        return record.value;
+      } catch (error) {
+        console.warn(`IndexedDB read failed (${databaseName}/${storeName}):`, error);
+        return undefined;
+      }
+    },
+
+    async set(key, value) {
+      try {
+        const db = await openDatabase();
+        await requestToPromise(
+          db.transaction(storeName, 'readwrite').objectStore(storeName).put({ value, storedAt: Date.now() }, key)
+        );
+      } catch (error) {
+        console.warn(`IndexedDB write failed (${databaseName}/${storeName}):`, error);
+      }
+    }
+  };
+}
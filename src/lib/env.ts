@@ -0,0 +1,34 @@
+// Configuration lookup shared by the browser bundle, the API worker and Node scripts.
+// Vite inlines VITE_* variables into the browser build; the API worker passes its
+// bindings through setRuntimeEnv; Node scripts fall back to process.env.
+
+type EnvRecord = Record<string, string | undefined>;
+
+const buildEnv: EnvRecord = (import.meta as any).env ?? {};
+let runtimeEnv: EnvRecord = {};
+
+// Register environment bindings that are only known at request time (e.g. worker secrets)
+export function setRuntimeEnv(env: Record<string, unknown>): void {
+  const stringValues: EnvRecord = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (typeof value === 'string') {
+      stringValues[key] = value;
+    }
+  }
+  runtimeEnv = { ...runtimeEnv, ...stringValues };
+}
+
+// Read a configuration value, checking runtime bindings, build-time env and process.env in order
+export function readEnv(key: string, fallback?: string): string | undefined {
+  const processEnv: EnvRecord = typeof process !== 'undefined' ? process.env ?? {} : {};
+  return runtimeEnv[key] ?? buildEnv[key] ?? processEnv[key] ?? fallback;
+}
+
+// Read a configuration value that must be present
+export function requireEnv(key: string): string {
+  const value = readEnv(key);
+  if (!value) {
+    throw new Error(`Missing ${key} environment variable`);
+  }
+  return value;
+}
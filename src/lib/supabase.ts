@@ -1,22 +1,176 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { readEnv } from './env';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+let supabaseClient: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
+// Lazily create the Supabase client so the API worker can register its env bindings first
+export function getSupabase(): SupabaseClient {
+  if (supabaseClient) {
+    return supabaseClient;
+  }
+
+  const supabaseUrl = readEnv('VITE_SUPABASE_URL') || readEnv('SUPABASE_URL');
+  const supabaseAnonKey = readEnv('VITE_SUPABASE_ANON_KEY') || readEnv('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      autoRefreshToken: true,
+      persistSession: true,
+      detectSessionInUrl: true
+    },
+    db: {
+      schema: 'public'
+    }
+  });
+
+  return supabaseClient;
+}
+
+let supabaseAdminClient: SupabaseClient | null = null;
+
+// Service-role client for Node scripts that write Nelson chunks; never used in the browser
+export function getSupabaseAdmin(): SupabaseClient {
+  if (supabaseAdminClient) {
+    return supabaseAdminClient;
+  }
+
+  const supabaseUrl = readEnv('VITE_SUPABASE_URL') || readEnv('SUPABASE_URL');
+  const serviceKey = readEnv('SUPABASE_SERVICE_KEY');
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Missing Supabase URL or SUPABASE_SERVICE_KEY');
+  }
+
+  supabaseAdminClient = createClient(supabaseUrl, serviceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+
+  return supabaseAdminClient;
+}
+
+// Signed-in clinician; name, title and institution live in the Supabase user metadata
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  title: string;
+  institution: string;
+}
+
+export type UserProfileDetails = Pick<UserProfile, 'name' | 'title' | 'institution'>;
+
+// Build the profile shown in the header from a Supabase auth user
+export function toUserProfile(user: User): UserProfile {
+  const metadata = user.user_metadata ?? {};
+  return {
+    id: user.id,
+    email: user.email ?? '',
+    name: metadata.full_name || metadata.name || '',
+    title: metadata.title || '',
+    institution: metadata.institution || ''
+  };
+}
+
+// Email a one-time sign-in code (the same email carries a magic link back to the app)
+export async function sendSignInCode(email: string): Promise<void> {
+  try {
+    const { error } = await getSupabase().auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: typeof window !== 'undefined' ? window.location.origin : undefined
+      }
+    });
+
+    if (error) {
+      console.error('Error sending sign-in code:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Send sign-in code error:', error);
+    throw new Error('Failed to send sign-in code');
+  }
+}
+
+// Exchange an emailed code for a session
+export async function verifySignInCode(email: string, code: string): Promise<UserProfile> {
+  try {
+    const { data, error } = await getSupabase().auth.verifyOtp({ email, token: code, type: 'email' });
+
+    if (error || !data.user) {
+      console.error('Error verifying sign-in code:', error);
+      throw error ?? new Error('No user returned');
+    }
+
+    return toUserProfile(data.user);
+  } catch (error) {
+    console.error('Verify sign-in code error:', error);
+    throw new Error('Invalid or expired sign-in code');
+  }
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true
-  },
-  db: {
-    schema: 'public'
+// End the current session on this device
+export async function signOut(): Promise<void> {
+  const { error } = await getSupabase().auth.signOut();
+  if (error) {
+    console.error('Sign out error:', error);
+    throw new Error('Failed to sign out');
   }
-});
+}
+
+// Save the signed-in user's name, title and institution
+export async function updateUserProfile(details: UserProfileDetails): Promise<UserProfile> {
+  try {
+    const { data, error } = await getSupabase().auth.updateUser({
+      data: {
+        full_name: details.name,
+        title: details.title,
+        institution: details.institution
+      }
+    });
+
+    if (error) {
+      console.error('Error updating profile:', error);
+      throw error;
+    }
+
+    return toUserProfile(data.user);
+  } catch (error) {
+    console.error('Update profile error:', error);
+    throw new Error('Failed to update profile');
+  }
+}
+
+// Access token of the current session; the browser sends it to the API worker
+export async function getAccessToken(): Promise<string | null> {
+  const { data } = await getSupabase().auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+// Check an access token with Supabase Auth (server-side); null when it is missing, expired or forged
+export async function verifyAccessToken(accessToken: string): Promise<User | null> {
+  const { data, error } = await getSupabase().auth.getUser(accessToken);
+  if (error || !data.user) {
+    return null;
+  }
+  return data.user;
+}
+
+// Id of the signed-in user; chat data is scoped to it (and enforced by RLS)
+async function requireUserId(): Promise<string> {
+  const { data } = await getSupabase().auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) {
+    throw new Error('Not signed in');
+  }
+  return userId;
+}
 
 // Database types for Nelson Textbook content (matching actual schema)
 export interface NelsonTextbookChunk {
@@ -31,6 +185,9 @@ export interface NelsonTextbookChunk {
   embedding: number[] | null;
 }
 
+// A chunk as written by ingestion; id and created_at are assigned by the database
+export type NelsonChunkRow = Omit<NelsonTextbookChunk, 'id' | 'created_at'>;
+
 // For compatibility with existing code
 export interface NelsonDocument {
   id: string;
@@ -44,6 +201,26 @@ export interface NelsonDocument {
   embedding: number[];
   created_at: string;
   updated_at: string;
+  similarity?: number;
+  text_rank?: number;
+  score?: number;
+  // Second-stage relevance from the reranker (0-1)
+  rerank_score?: number;
+  // Position of the chunk within its chapter
+  chunk_index?: number;
+  // Chunk index range stitched into content when neighbouring chunks were added
+  context_range?: [number, number];
+  // Text of the retrieved chunk itself when content also holds its neighbours
+  hit_content?: string;
+  // metadata.content_hash of the chunk (of every stitched chunk, joined, for expanded documents)
+  content_hash?: string;
+}
+
+// Relevance scores returned by the search RPC functions
+export interface RetrievalScores {
+  similarity?: number;
+  text_rank?: number;
+  score?: number;
 }
 
 export interface ChatSession {
@@ -54,6 +231,19 @@ export interface ChatSession {
   updated_at: string;
   message_count: number;
   last_message_at: string;
+  // Pinned sessions are listed above the dated groups; archived ones only under Archived
+  pinned: boolean;
+  archived: boolean;
+}
+
+// Filters for listing chat sessions; `before` is the last_message_at cursor of the previous page
+// Keyset cursor: the last session of the previous page (id breaks last_message_at ties)
+export type ChatSessionCursor = Pick<ChatSession, 'last_message_at' | 'id'>;
+
+export interface ChatSessionQuery {
+  before?: ChatSessionCursor;
+  pinned?: boolean;
+  archived?: boolean;
 }
 
 export interface ChatMessage {
@@ -74,10 +264,15 @@ export interface Citation {
   page_number?: number;
   edition: string;
   relevance_score: number;
+  // What relevance_score is: the reranker's score or the retrieval score (absent on older messages)
+  score_source?: 'rerank' | 'retrieval';
+  // Inline [n] marker and cited chunk text (absent on messages saved before inline citations)
+  marker?: number;
+  excerpt?: string;
 }
 
 // Convert NelsonTextbookChunk to NelsonDocument for compatibility
-function convertChunkToDocument(chunk: NelsonTextbookChunk): NelsonDocument {
+export function convertChunkToDocument(chunk: NelsonTextbookChunk, scores: RetrievalScores = {}): NelsonDocument {
   return {
     id: chunk.id,
     chapter: chunk.chapter_title,
@@ -85,14 +280,32 @@ function convertChunkToDocument(chunk: NelsonTextbookChunk): NelsonDocument {
     subsection: undefined,
     content: chunk.content,
     page_number: chunk.page_number || undefined,
-    edition: '22nd Edition', // Default to 22nd edition
+    chunk_index: chunk.chunk_index ?? undefined,
+    content_hash: chunk.metadata?.content_hash ?? undefined,
+    edition: chunk.metadata?.edition || '22nd Edition', // Default to 22nd edition
     keywords: [], // Could extract from metadata if available
     embedding: chunk.embedding || [],
     created_at: chunk.created_at,
     updated_at: chunk.created_at,
+    ...scores,
   };
 }
 
+// Map a row returned by one of the search RPC functions to a NelsonDocument
+function convertSearchRowToDocument(row: any, scores: RetrievalScores): NelsonDocument {
+  return convertChunkToDocument({
+    id: row.id,
+    content: row.content,
+    chapter_title: row.chapter_title,
+    section_title: row.section_title,
+    page_number: row.page_number,
+    chunk_index: row.chunk_index,
+    metadata: row.metadata,
+    created_at: row.created_at,
+    embedding: null // Don't return embeddings in results
+  }, scores);
+}
+
 // Vector search function using pgvector similarity
 export async function searchSimilarDocuments(
   queryEmbedding: number[],
@@ -101,7 +314,7 @@ export async function searchSimilarDocuments(
 ): Promise<NelsonDocument[]> {
   try {
     // Use the match_nelson_chunks RPC function for vector similarity search
-    const { data, error } = await supabase.rpc('match_nelson_chunks', {
+    const { data, error } = await getSupabase().rpc('match_nelson_chunks', {
       query_embedding: queryEmbedding,
       match_threshold: matchThreshold,
       match_count: matchCount
@@ -118,16 +331,9 @@ export async function searchSimilarDocuments(
     }
 
     // Convert chunks to documents
-    return data.map((chunk: any) => convertChunkToDocument({
-      id: chunk.id,
-      content: chunk.content,
-      chapter_title: chunk.chapter_title,
-      section_title: chunk.section_title,
-      page_number: chunk.page_number,
-      chunk_index: chunk.chunk_index,
-      metadata: chunk.metadata,
-      created_at: chunk.created_at,
-      embedding: null // Don't return embeddings in results
+    return data.map((chunk: any) => convertSearchRowToDocument(chunk, {
+      similarity: chunk.similarity,
+      score: chunk.similarity
     }));
 
   } catch (error) {
@@ -136,13 +342,109 @@ export async function searchSimilarDocuments(
   }
 }
 
-// Create a new chat session
+// Vector search restricted to a single chapter
+export async function searchDocumentsByChapter(
+  queryEmbedding: number[],
+  chapterTitle: string,
+  matchThreshold: number = 0.7,
+  matchCount: number = 5
+): Promise<NelsonDocument[]> {
+  try {
+    const { data, error } = await getSupabase().rpc('match_nelson_chunks_by_chapter', {
+      query_embedding: queryEmbedding,
+      chapter_filter: chapterTitle,
+      match_threshold: matchThreshold,
+      match_count: matchCount
+    });
+
+    if (error) {
+      console.error('Error in chapter search:', error);
+      throw error;
+    }
+
+    return (data || []).map((chunk: any) => convertSearchRowToDocument(chunk, {
+      similarity: chunk.similarity,
+      score: chunk.similarity
+    }));
+
+  } catch (error) {
+    console.error('Chapter search error:', error);
+    throw new Error('Failed to search Nelson textbook chapter');
+  }
+}
+
+// Ranked full-text search using the search_nelson_chunks_text RPC function
+export async function searchTextDocuments(
+  queryText: string,
+  matchCount: number = 5
+): Promise<NelsonDocument[]> {
+  try {
+    const { data, error } = await getSupabase().rpc('search_nelson_chunks_text', {
+      query_text: queryText,
+      match_count: matchCount
+    });
+
+    if (error) {
+      console.error('Error in text search:', error);
+      throw error;
+    }
+
+    return (data || []).map((chunk: any) => convertSearchRowToDocument(chunk, {
+      text_rank: chunk.text_rank,
+      score: chunk.text_rank
+    }));
+
+  } catch (error) {
+    console.error('Text search error:', error);
+    throw new Error('Failed to search medical literature');
+  }
+}
+
+// Hybrid search blending vector similarity and text rank in hybrid_search_nelson
+export async function hybridSearchDocuments(
+  queryText: string,
+  queryEmbedding: number[],
+  matchThreshold: number = 0.7,
+  matchCount: number = 5,
+  vectorWeight: number = 0.7,
+  textWeight: number = 0.3
+): Promise<NelsonDocument[]> {
+  try {
+    const { data, error } = await getSupabase().rpc('hybrid_search_nelson', {
+      query_text: queryText,
+      query_embedding: queryEmbedding,
+      match_threshold: matchThreshold,
+      match_count: matchCount,
+      vector_weight: vectorWeight,
+      text_weight: textWeight
+    });
+
+    if (error) {
+      console.error('Error in hybrid search:', error);
+      throw error;
+    }
+
+    return (data || []).map((chunk: any) => convertSearchRowToDocument(chunk, {
+      similarity: chunk.similarity,
+      text_rank: chunk.text_rank,
+      score: chunk.hybrid_score
+    }));
+
+  } catch (error) {
+    console.error('Hybrid search error:', error);
+    throw new Error('Failed to search medical literature');
+  }
+}
+
+// Create a new chat session owned by the signed-in user
 export async function createChatSession(title: string): Promise<ChatSession> {
   try {
-    const { data, error } = await supabase
+    const userId = await requireUserId();
+    const { data, error } = await getSupabase()
       .from('chat_sessions')
       .insert([
         {
+          user_id: userId,
           title,
           message_count: 0,
           last_message_at: new Date().toISOString()
@@ -173,7 +475,7 @@ export async function saveChatMessage(
   metadata?: Record<string, any>
 ): Promise<ChatMessage> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('chat_messages')
       .insert([
         {
@@ -193,15 +495,7 @@ export async function saveChatMessage(
       throw error;
     }
 
-    // Update session message count and last message time
-    await supabase
-      .from('chat_sessions')
-      .update({
-        message_count: await getMessageCount(sessionId) + 1,
-        last_message_at: new Date().toISOString()
-      })
-      .eq('id', sessionId);
-
+    // message_count and last_message_at are bumped by a trigger in the same transaction
     return data;
   } catch (error) {
     console.error('Save message error:', error);
@@ -209,23 +503,48 @@ export async function saveChatMessage(
   }
 }
 
-// Get message count for a session
-async function getMessageCount(sessionId: string): Promise<number> {
-  const { count } = await supabase
-    .from('chat_messages')
-    .select('*', { count: 'exact', head: true })
-    .eq('session_id', sessionId);
-  
-  return count || 0;
+// Delete one chat message (e.g. an answer replaced by a regenerated one); RLS limits it to the
+// user's own sessions and the counters trigger keeps message_count in step
+export async function deleteChatMessage(messageId: string): Promise<void> {
+  try {
+    const { error } = await getSupabase()
+      .from('chat_messages')
+      .delete()
+      .eq('id', messageId);
+
+    if (error) {
+      console.error('Error deleting chat message:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Delete message error:', error);
+    throw new Error('Failed to delete chat message');
+  }
 }
 
-// Get chat sessions for user
-export async function getChatSessions(limit: number = 10): Promise<ChatSession[]> {
+// Get the signed-in user's chat sessions, most recent first (archived ones only when asked for)
+export async function getChatSessions(limit: number = 10, options: ChatSessionQuery = {}): Promise<ChatSession[]> {
   try {
-    const { data, error } = await supabase
+    const userId = await requireUserId();
+    let query = getSupabase()
       .from('chat_sessions')
       .select('*')
+      .eq('user_id', userId)
+      .eq('archived', options.archived ?? false);
+
+    if (options.pinned !== undefined) {
+      query = query.eq('pinned', options.pinned);
+    }
+    if (options.before) {
+      const { last_message_at: lastMessageAt, id } = options.before;
+      query = query.or(
+        `last_message_at.lt."${lastMessageAt}",and(last_message_at.eq."${lastMessageAt}",id.lt.${id})`
+      );
+    }
+
+    const { data, error } = await query
       .order('last_message_at', { ascending: false })
+      .order('id', { ascending: false })
       .limit(limit);
 
     if (error) {
@@ -240,10 +559,97 @@ export async function getChatSessions(limit: number = 10): Promise<ChatSession[]
   }
 }
 
+// Update a chat session's title, pin or archive state
+async function updateChatSession(
+  sessionId: string,
+  changes: Partial<Pick<ChatSession, 'title' | 'pinned' | 'archived'>>
+): Promise<ChatSession> {
+  try {
+    const userId = await requireUserId();
+    const { data, error } = await getSupabase()
+      .from('chat_sessions')
+      .update(changes)
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating chat session:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Update session error:', error);
+    throw new Error('Failed to update chat session');
+  }
+}
+
+// Rename a chat session
+export async function renameChatSession(sessionId: string, title: string): Promise<ChatSession> {
+  return updateChatSession(sessionId, { title: title.trim() || 'Untitled consultation' });
+}
+
+// Pin a chat session to the top of the sidebar, or unpin it
+export async function setChatSessionPinned(sessionId: string, pinned: boolean): Promise<ChatSession> {
+  return updateChatSession(sessionId, { pinned });
+}
+
+// Move a chat session to the archive, or restore it
+export async function setChatSessionArchived(sessionId: string, archived: boolean): Promise<ChatSession> {
+  return updateChatSession(sessionId, { archived, ...(archived ? { pinned: false } : {}) });
+}
+
+// Delete a chat session and its messages
+export async function deleteChatSession(sessionId: string): Promise<void> {
+  try {
+    const userId = await requireUserId();
+
+    // One statement: the chat_messages foreign key cascades the delete to the messages
+    const { error } = await getSupabase()
+      .from('chat_sessions')
+      .delete()
+      .eq('id', sessionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting chat session:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Delete session error:', error);
+    throw new Error('Failed to delete chat session');
+  }
+}
+
+// Get a single chat session of the signed-in user
+export async function getChatSession(sessionId: string): Promise<ChatSession> {
+  try {
+    const userId = await requireUserId();
+    const { data, error } = await getSupabase()
+      .from('chat_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching chat session:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Fetch session error:', error);
+    throw new Error('Failed to fetch chat session');
+  }
+}
+
 // Get messages for a chat session
 export async function getChatMessages(sessionId: string): Promise<ChatMessage[]> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('chat_messages')
       .select('*')
       .eq('session_id', sessionId)
@@ -261,13 +667,187 @@ export async function getChatMessages(sessionId: string): Promise<ChatMessage[]>
   }
 }
 
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackReason = 'inaccurate' | 'missing_citation' | 'outdated' | 'unsafe' | 'not_helpful';
+
+// A user's rating of an assistant message; one per user and message
+export interface MessageFeedback {
+  id: string;
+  message_id: string;
+  user_id: string;
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Feedback with the question, answer and retrieved chunks it refers to (message_feedback_export view)
+export interface FeedbackExportRow {
+  feedback_id: string;
+  created_at: string;
+  user_id: string;
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+  comment: string | null;
+  session_id: string;
+  message_id: string;
+  question: string | null;
+  answer: string;
+  confidence: 'high' | 'medium' | 'low' | null;
+  retrieved_chunk_ids: string[];
+  cited_chunk_ids: string[];
+  model: string | null;
+}
+
+// Save (or replace) the signed-in user's rating of an assistant message
+export async function saveMessageFeedback(
+  messageId: string,
+  rating: FeedbackRating,
+  reasons: FeedbackReason[] = [],
+  comment?: string
+): Promise<MessageFeedback> {
+  try {
+    const userId = await requireUserId();
+    const { data, error } = await getSupabase()
+      .from('message_feedback')
+      .upsert(
+        {
+          message_id: messageId,
+          user_id: userId,
+          rating,
+          reasons,
+          comment: comment?.trim() || null,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'message_id,user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving message feedback:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Save feedback error:', error);
+    throw new Error('Failed to save feedback');
+  }
+}
+
+// Get the signed-in user's feedback for a set of messages
+export async function getMessageFeedback(messageIds: string[]): Promise<MessageFeedback[]> {
+  if (messageIds.length === 0) {
+    return [];
+  }
+
+  try {
+    const userId = await requireUserId();
+    const { data, error } = await getSupabase()
+      .from('message_feedback')
+      .select('*')
+      .eq('user_id', userId)
+      .in('message_id', messageIds);
+
+    if (error) {
+      console.error('Error fetching message feedback:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Fetch feedback error:', error);
+    throw new Error('Failed to fetch feedback');
+  }
+}
+
+// Get all users' feedback for QA review (service role; used by the export script), newest first
+export async function getFeedbackExport(
+  options: { since?: string; rating?: FeedbackRating } = {}
+): Promise<FeedbackExportRow[]> {
+  const pageSize = 1000;
+  const rows: FeedbackExportRow[] = [];
+
+  try {
+    for (let from = 0; ; from += pageSize) {
+      let query = getSupabaseAdmin()
+        .from('message_feedback_export')
+        .select('*');
+
+      if (options.since) {
+        query = query.gte('created_at', options.since);
+      }
+      if (options.rating) {
+        query = query.eq('rating', options.rating);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('Error fetching feedback export:', error);
+        throw error;
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) {
+        return rows;
+      }
+    }
+  } catch (error) {
+    console.error('Feedback export error:', error);
+    throw new Error('Failed to export feedback');
+  }
+}
+
+// A consultation matching a history search: a session title match has no message_id
+export interface ChatSearchResult {
+  session_id: string;
+  session_title: string;
+  archived: boolean;
+  message_id: string | null;
+  role: 'user' | 'assistant' | null;
+  // Matched text with the matching terms wrapped in <mark></mark>
+  snippet: string;
+  created_at: string;
+  rank: number;
+}
+
+// Full-text search over the signed-in user's messages and session titles
+export async function searchChatHistory(query: string, limit: number = 20): Promise<ChatSearchResult[]> {
+  if (!query.trim()) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await getSupabase().rpc('search_chat_history', {
+      query_text: query,
+      match_count: limit
+    });
+
+    if (error) {
+      console.error('Error searching chat history:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Chat history search error:', error);
+    throw new Error('Failed to search chat history');
+  }
+}
+
 // Search Nelson textbook chunks directly
 export async function searchNelsonChunks(
   queryText: string,
   limit: number = 10
 ): Promise<NelsonTextbookChunk[]> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('nelson_textbook_chunks')
       .select('*')
       .textSearch('content', queryText)
@@ -291,7 +871,7 @@ export async function getNelsonChunksByChapter(
   limit: number = 20
 ): Promise<NelsonTextbookChunk[]> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('nelson_textbook_chunks')
       .select('*')
       .eq('chapter_title', chapterTitle)
@@ -310,10 +890,43 @@ export async function getNelsonChunksByChapter(
   }
 }
 
+// Get consecutive chunks of a chapter by chunk_index, in reading order
+export async function getNelsonChunksByIndexRange(
+  chapterTitle: string,
+  fromIndex: number,
+  toIndex: number
+): Promise<NelsonDocument[]> {
+  try {
+    const { data, error } = await getSupabase()
+      .from('nelson_textbook_chunks')
+      .select('id, content, chapter_title, section_title, page_number, chunk_index, metadata, created_at')
+      .eq('chapter_title', chapterTitle)
+      .gte('chunk_index', fromIndex)
+      .lte('chunk_index', toIndex)
+      .order('chunk_index', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching Nelson chunks by index range:', error);
+      throw error;
+    }
+
+    return (data || []).map(chunk => convertChunkToDocument({ ...chunk, embedding: null }));
+  } catch (error) {
+    console.error('Nelson chunks by index range error:', error);
+    throw new Error('Failed to fetch neighbouring Nelson textbook chunks');
+  }
+}
+
 // Get all unique chapters
 export async function getNelsonChapters(): Promise<string[]> {
   try {
-    const { data, error } = await supabase
+    // Prefer the DISTINCT query; selecting every row is capped by the API row limit
+    const { data: chapterRows, error: rpcError } = await getSupabase().rpc('list_nelson_chapters');
+    if (!rpcError && chapterRows) {
+      return chapterRows.map((row: { chapter_title: string }) => row.chapter_title);
+    }
+
+    const { data, error } = await getSupabase()
       .from('nelson_textbook_chunks')
       .select('chapter_title')
       .not('chapter_title', 'is', null);
@@ -332,13 +945,175 @@ export async function getNelsonChapters(): Promise<string[]> {
   }
 }
 
+// What incremental ingestion compares to decide whether a stored chunk is still current
+export interface ChunkFingerprint {
+  chunk_index: number;
+  section_title: string | null;
+  page_number: number | null;
+  content_hash: string | null;
+  embedding_model: string | null;
+}
+
+// Rows fetched per request when paging through chunks (the API caps responses at 1000)
+const CHUNK_PAGE_SIZE = 1000;
+
+// Get the stored fingerprints of a chapter's chunks
+export async function getNelsonChunkFingerprints(chapterTitle: string): Promise<ChunkFingerprint[]> {
+  try {
+    const fingerprints: ChunkFingerprint[] = [];
+
+    for (let from = 0; ; from += CHUNK_PAGE_SIZE) {
+      const { data, error } = await getSupabaseAdmin()
+        .from('nelson_textbook_chunks')
+        .select('chunk_index, section_title, page_number, metadata')
+        .eq('chapter_title', chapterTitle)
+        .order('chunk_index', { ascending: true })
+        .range(from, from + CHUNK_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching Nelson chunk fingerprints:', error);
+        throw error;
+      }
+
+      fingerprints.push(...(data || []).map(row => ({
+        chunk_index: row.chunk_index,
+        section_title: row.section_title,
+        page_number: row.page_number,
+        content_hash: row.metadata?.content_hash ?? null,
+        embedding_model: row.metadata?.embedding_model ?? null
+      })));
+
+      if (!data || data.length < CHUNK_PAGE_SIZE) {
+        return fingerprints;
+      }
+    }
+  } catch (error) {
+    console.error('Nelson chunk fingerprints error:', error);
+    throw new Error('Failed to fetch stored Nelson textbook chunks');
+  }
+}
+
+// Insert chunks, replacing any stored under the same chapter and chunk_index. Rows sent
+// without an embedding keep the stored vector; a batch must not mix the two kinds.
+export async function upsertNelsonChunks(
+  rows: Array<Omit<NelsonChunkRow, 'embedding'> & Partial<Pick<NelsonChunkRow, 'embedding'>>>
+): Promise<void> {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('nelson_textbook_chunks')
+      .upsert(rows, { onConflict: 'chapter_title,chunk_index' });
+
+    if (error) {
+      console.error('Error upserting Nelson chunks:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Upsert Nelson chunks error:', error);
+    throw new Error('Failed to store Nelson textbook chunks');
+  }
+}
+
+// Remove the chunks left over when a re-ingested chapter produced fewer chunks
+export async function deleteNelsonChunksFrom(chapterTitle: string, fromIndex: number): Promise<number> {
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .from('nelson_textbook_chunks')
+      .delete()
+      .eq('chapter_title', chapterTitle)
+      .gte('chunk_index', fromIndex)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting stale Nelson chunks:', error);
+      throw error;
+    }
+
+    return data?.length || 0;
+  } catch (error) {
+    console.error('Delete Nelson chunks error:', error);
+    throw new Error('Failed to remove stale Nelson textbook chunks');
+  }
+}
+
+// Get chunks whose embeddings were not made with the given model, for re-embedding
+export async function getChunksNeedingReembedding(
+  model: string,
+  limit: number,
+  chapterTitle?: string
+): Promise<Array<Pick<NelsonTextbookChunk, 'id' | 'content' | 'metadata'>>> {
+  try {
+    let query = getSupabaseAdmin()
+      .from('nelson_textbook_chunks')
+      .select('id, content, metadata')
+      .or(`metadata->>embedding_model.is.null,metadata->>embedding_model.neq."${model}"`);
+
+    if (chapterTitle) {
+      query = query.eq('chapter_title', chapterTitle);
+    }
+
+    const { data, error } = await query.order('id', { ascending: true }).limit(limit);
+
+    if (error) {
+      console.error('Error fetching chunks to re-embed:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Chunks to re-embed error:', error);
+    throw new Error('Failed to fetch Nelson textbook chunks to re-embed');
+  }
+}
+
+// Replace a chunk's embedding and metadata
+export async function updateChunkEmbedding(
+  id: string,
+  embedding: number[],
+  metadata: Record<string, any>
+): Promise<void> {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('nelson_textbook_chunks')
+      .update({ embedding, metadata })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating chunk embedding:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Update chunk embedding error:', error);
+    throw new Error('Failed to update Nelson textbook chunk embedding');
+  }
+}
+
+// Get the embedding models recorded for the stored chunks, most used first
+export async function getNelsonEmbeddingModels(): Promise<Array<{ model: string | null; chunks: number }>> {
+  try {
+    const { data, error } = await getSupabase().rpc('list_nelson_embedding_models');
+
+    if (error) {
+      console.error('Error fetching Nelson embedding models:', error);
+      throw error;
+    }
+
+    return (data || []).map((row: { embedding_model: string | null; chunk_count: number }) => ({
+      model: row.embedding_model,
+      chunks: Number(row.chunk_count)
+    }));
+  } catch (error) {
+    console.error('Nelson embedding models error:', error);
+    throw new Error('Failed to fetch Nelson index embedding models');
+  }
+}
+
 // Get drug dosage information (if you have a separate table for this)
 export async function searchDrugDosage(
   drugName: string,
   ageGroup?: string
 ): Promise<any[]> {
   try {
-    let query = supabase
+    let query = getSupabase()
       .from('pediatric_drug_dosage') // Adjust table name as needed
       .select('*')
       .ilike('drug_name', `%${drugName}%`);
@@ -369,7 +1144,7 @@ export async function testDatabaseConnection(): Promise<{
 }> {
   try {
     // Test basic connection
-    const { data: testData, error: testError } = await supabase
+    const { data: testData, error: testError } = await getSupabase()
       .from('nelson_textbook_chunks')
       .select('count')
       .limit(1);
@@ -380,7 +1155,7 @@ export async function testDatabaseConnection(): Promise<{
     }
 
     // Get total count of chunks
-    const { count, error: countError } = await supabase
+    const { count, error: countError } = await getSupabase()
       .from('nelson_textbook_chunks')
       .select('*', { count: 'exact', head: true });
 
@@ -390,7 +1165,7 @@ export async function testDatabaseConnection(): Promise<{
     }
 
     // Get a sample chapter
-    const { data: sampleData, error: sampleError } = await supabase
+    const { data: sampleData, error: sampleError } = await getSupabase()
       .from('nelson_textbook_chunks')
       .select('chapter_title')
       .limit(1);
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildAnswerCacheKey, cacheAnswer, clearAnswerCache, getCachedAnswer, normalizeQuery } from './answerCache';
+import type { NelsonDocument } from '@/lib/supabase';
+import type { LLMProvider } from './llmProvider';
+import type { RAGResponse } from './ragService';
+
+const provider = { name: 'mistral', model: 'mistral-large-latest' } as LLMProvider;
+
+function doc(id: string, content: string, contentHash?: string): NelsonDocument {
+  return {
+    id,
+    chapter: 'Croup',
+    section: 'Treatment',
+    content,
+    edition: '22nd',
+    keywords: [],
+    embedding: [],
+    created_at: '',
+    updated_at: '',
+    content_hash: contentHash
+  };
+}
+
+function answer(overrides: Partial<RAGResponse> = {}): RAGResponse {
+  return {
+    content: 'Give dexamethasone 0.6 mg/kg [1]',
+    confidence: 'high',
+    citations: [],
+    retrievedDocuments: [doc('a', 'Dexamethasone 0.6 mg/kg once')],
+    processingTime: 120,
+    ...overrides
+  };
+}
+
+afterEach(() => {
+  clearAnswerCache();
+});
+
+describe('normalizeQuery', () => {
+  it('ignores case, punctuation and spacing but keeps decimals', () => {
+    expect(normalizeQuery('  Croup:   Dexamethasone 0.6 mg/kg?  ')).toBe('croup dexamethasone 0.6 mg kg');
+    expect(normalizeQuery('What is croup?')).toBe(normalizeQuery('what is  croup'));
+  });
+});
+
+describe('buildAnswerCacheKey', () => {
+  it('changes when a chunk keeps its id but its content hash changes', () => {
+    const before = buildAnswerCacheKey('croup dose', [doc('a', 'Dexamethasone 0.6 mg/kg', 'hash-1')], provider);
+    const after = buildAnswerCacheKey('croup dose', [doc('a', 'Dexamethasone 0.6 mg/kg', 'hash-2')], provider);
+
+    expect(after).not.toBe(before);
+  });
+
+  it('hashes the content when no content hash was recorded', () => {
+    const before = buildAnswerCacheKey('croup dose', [doc('a', 'Dexamethasone 0.6 mg/kg')], provider);
+    const after = buildAnswerCacheKey('croup dose', [doc('a', 'Dexamethasone 0.15 mg/kg')], provider);
+
+    expect(after).not.toBe(before);
+  });
+
+  it('depends on rank order, model and system prompt', () => {
+    const documents = [doc('a', 'first', 'h1'), doc('b', 'second', 'h2')];
+    const key = buildAnswerCacheKey('croup dose', documents, provider);
+
+    expect(buildAnswerCacheKey('Croup dose?', documents, provider)).toBe(key);
+    expect(buildAnswerCacheKey('croup dose', [...documents].reverse(), provider)).not.toBe(key);
+    expect(buildAnswerCacheKey('croup dose', documents, { ...provider, model: 'mistral-small-latest' })).not.toBe(key);
+    expect(buildAnswerCacheKey('croup dose', documents, provider, 'Answer briefly.')).not.toBe(key);
+  });
+});
+
+describe('cacheAnswer', () => {
+  it('serves a stored answer marked as cached with the current retrieval', () => {
+    const retrieved = [doc('a', 'Dexamethasone 0.6 mg/kg once')];
+    cacheAnswer('key', answer());
+
+    const cached = getCachedAnswer('key', retrieved, Date.now());
+
+    expect(cached).toMatchObject({ content: 'Give dexamethasone 0.6 mg/kg [1]', cached: true, metadata: { cached: true } });
+    expect(cached?.retrievedDocuments).toBe(retrieved);
+  });
+
+  it('never stores low-confidence, stopped or ungrounded answers', () => {
+    cacheAnswer('low', answer({ confidence: 'low' }));
+    cacheAnswer('stopped', answer({ stopped: true }));
+    cacheAnswer('empty', answer({ retrievedDocuments: [] }));
+
+    expect(getCachedAnswer('low', [], Date.now())).toBeNull();
+    expect(getCachedAnswer('stopped', [], Date.now())).toBeNull();
+    expect(getCachedAnswer('empty', [], Date.now())).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { createLRUCache } from '@/lib/cache';
+import { readEnv } from '@/lib/env';
+import type { NelsonDocument } from '@/lib/supabase';
+import type { LLMProvider } from './llmProvider';
+import type { RAGResponse } from './ragService';
+
+// Answers for repeated questions (teaching cases asked by a whole ward round) are reused
+// when the standalone query and the retrieved chunks match exactly. Each chunk's id and
+// content hash are part of the key in rank order: re-ingestion keeps a chunk's id but
+// rewrites its content (and hash), so edited or re-ranked content never serves a stale
+// answer and the [n] citation markers still point at the same sources.
+
+const ANSWER_CACHE_SIZE = 200;
+const ANSWER_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+type CachedAnswer = Omit<RAGResponse, 'retrievedDocuments' | 'processingTime' | 'cached'>;
+
+const answerCache = createLRUCache<CachedAnswer>(ANSWER_CACHE_SIZE, ANSWER_CACHE_TTL_MS);
+
+// Whether ANSWER_CACHE enables answer caching when RAGConfig.cacheAnswers is unset
+export function isAnswerCacheEnabled(): boolean {
+  const value = readEnv('ANSWER_CACHE')?.toLowerCase();
+  return value === 'true' || value === 'on' || value === '1';
+}
+
+// Lower-case the query and drop punctuation and extra whitespace
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s.]/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+// Identity of a retrieved chunk's text; hashes the content when ingestion recorded no hash
+function documentFingerprint(document: NelsonDocument): string {
+  return `${document.id}:${document.content_hash ?? hashString(document.content)}`;
+}
+
+// Cache key: normalized query, retrieved chunk ids and content hashes in rank order, model and system prompt
+export function buildAnswerCacheKey(
+  query: string,
+  documents: NelsonDocument[],
+  provider: LLMProvider,
+  systemPrompt?: string
+): string {
+  return [
+    normalizeQuery(query),
+    documents.map(documentFingerprint).join(','),
+    `${provider.name}:${provider.model}`,
+    systemPrompt ? hashString(systemPrompt) : 'default'
+  ].join('|');
+}
+
+// Look up an answer, marked as cached, with the current retrieval and timing
+export function getCachedAnswer(key: string, retrievedDocuments: NelsonDocument[], startTime: number): RAGResponse | null {
+  const cached = answerCache.get(key);
+  if (!cached) {
+    return null;
+  }
+
+  return {
+    ...cached,
+    retrievedDocuments,
+    processingTime: Date.now() - startTime,
+    cached: true,
+    metadata: { ...cached.metadata, cached: true }
+  };
+}
+
+// Store a completed answer; stopped and low-confidence answers are never reused
+export function cacheAnswer(key: string, response: RAGResponse): void {
+  if (response.stopped || response.confidence === 'low' || response.retrievedDocuments.length === 0) {
+    return;
+  }
+
+  const { retrievedDocuments, processingTime, cached, ...answer } = response;
+  answerCache.set(key, answer);
+}
+
+// Drop every cached answer (e.g. after re-ingesting chapters in the same process)
+export function clearAnswerCache(): void {
+  answerCache.clear();
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { streamChat, ChatStreamEvent } from './apiClient';
+import type { RAGResponse } from './ragService';
+
+vi.mock('@/lib/supabase', () => ({
+  getAccessToken: async () => 'test-token'
+}));
+
+const response: RAGResponse = {
+  content: 'Answer [1]',
+  confidence: 'high',
+  citations: [],
+  retrievedDocuments: [],
+  processingTime: 5
+};
+
+// Serve the given chunks of text as the SSE body of POST /api/chat
+function mockStream(chunks: string[]) {
+  const encoder = new TextEncoder();
+  const fetchMock = vi.fn(async () => new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+async function collect(generator: AsyncGenerator<ChatStreamEvent, RAGResponse>) {
+  const events: ChatStreamEvent[] = [];
+  while (true) {
+    const { value, done } = await generator.next();
+    if (done) return { events, result: value };
+    events.push(value);
+  }
+}
+
+const sse = (event: ChatStreamEvent) => `data: ${JSON.stringify(event)}\n\n`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamChat', () => {
+  it('parses events split across reads and returns the done response', async () => {
+    const body = sse({ type: 'token', content: 'Ans' }) + sse({ type: 'token', content: 'wer' }) + sse({ type: 'done', response });
+    mockStream([body.slice(0, 7), body.slice(7, 40), body.slice(40)]);
+
+    const { events, result } = await collect(streamChat({ query: 'otitis media' }));
+
+    expect(events.map(event => event.type)).toEqual(['token', 'token', 'done']);
+    expect(result).toEqual(response);
+  });
+
+  it('sends the session token and asks for a stream', async () => {
+    const fetchMock = mockStream([sse({ type: 'done', response })]);
+
+    await collect(streamChat({ query: 'otitis media' }));
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer test-token');
+    expect(JSON.parse(init.body as string)).toMatchObject({ query: 'otitis media', stream: true });
+  });
+
+  it('joins multi-line data fields and ignores other fields', async () => {
+    const json = JSON.stringify({ type: 'status', stage: 'retrieving', message: 'Searching' });
+    const split = json.indexOf(',') + 1;
+    mockStream([`: keep-alive\nevent: message\ndata: ${json.slice(0, split)}\ndata: ${json.slice(split)}\n\n`, sse({ type: 'done', response })]);
+
+    const { events } = await collect(streamChat({ query: 'otitis media' }));
+
+    expect(events[0]).toEqual({ type: 'status', stage: 'retrieving', message: 'Searching' });
+  });
+
+  it('throws the last error when the stream ends without done', async () => {
+    mockStream([sse({ type: 'error', message: 'Provider unavailable' })]);
+
+    await expect(collect(streamChat({ query: 'otitis media' }))).rejects.toThrow('Provider unavailable');
+  });
+});
@@ -0,0 +1,164 @@
+import { readEnv } from '@/lib/env';
+import { getAccessToken } from '@/lib/supabase';
+import type { NelsonDocument } from '@/lib/supabase';
+import type { RAGConfig, RAGResponse, RAGStreamEvent } from './ragService';
+import type { MistralMessage } from './mistralService';
+import type { EmbeddingBackend, EmbeddingResponse } from './embeddingService';
+
+// Client for the Nelson-GPT API worker (src/backend/api.ts). Provider keys stay on the
+// server; the browser only ever talks to these endpoints.
+
+export interface ChatRequestBody {
+  query: string;
+  conversationHistory?: MistralMessage[];
+  config?: Partial<RAGConfig>;
+  stream?: boolean;
+}
+
+export interface SearchRequestBody {
+  query: string;
+  config?: Partial<RAGConfig>;
+}
+
+export interface EmbedRequestBody {
+  texts: string[];
+}
+
+// Server-sent events emitted by POST /api/chat when streaming
+export type ChatStreamEvent = RAGStreamEvent;
+
+export interface ApiHealth {
+  status: string;
+  timestamp: string;
+  version: string;
+  embeddingBackend: EmbeddingBackend;
+  embeddingModel: string;
+  embeddingModelAvailable: boolean;
+}
+
+function apiUrl(path: string): string {
+  return `${readEnv('VITE_API_BASE_URL') || ''}${path}`;
+}
+
+// The worker only answers signed-in users; send the Supabase session token with every request
+async function authHeaders(): Promise<Record<string, string>> {
+  const accessToken = await getAccessToken();
+  if (!accessToken) {
+    throw new Error('Not signed in');
+  }
+  return { Authorization: `Bearer ${accessToken}` };
+}
+
+async function postJson<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(apiUrl(path), {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `API error: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Stream a Nelson-GPT answer; yields pipeline events and returns the final response.
+// Aborting the signal cancels the request, which also stops generation on the server.
+export async function* streamChat(
+  body: ChatRequestBody,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent, RAGResponse, unknown> {
+  const response = await fetch(apiUrl('/api/chat'), {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...await authHeaders()
+    },
+    body: JSON.stringify({ ...body, stream: true })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `API error: ${response.statusText}`);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body reader available');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lastError: string | undefined;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any partial event for the next read
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const data = rawEvent
+          .split('\n')
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice('data: '.length))
+          .join('\n');
+
+        if (!data) continue;
+
+        const event: ChatStreamEvent = JSON.parse(data);
+        yield event;
+
+        if (event.type === 'done') {
+          return event.response;
+        }
+        if (event.type === 'error') {
+          lastError = event.message;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  throw new Error(lastError || 'Chat stream ended unexpectedly');
+}
+
+// Get a complete Nelson-GPT answer in one request
+export async function sendChat(body: ChatRequestBody, signal?: AbortSignal): Promise<RAGResponse> {
+  const { response } = await postJson<{ response: RAGResponse }>('/api/chat', { ...body, stream: false }, signal);
+  return response;
+}
+
+// Retrieve Nelson Textbook documents without generating an answer
+export async function searchDocuments(body: SearchRequestBody): Promise<NelsonDocument[]> {
+  const { documents } = await postJson<{ documents: NelsonDocument[] }>('/api/search', body);
+  return documents;
+}
+
+// Embed texts with the server's configured embedding backend
+export async function embedTexts(body: EmbedRequestBody): Promise<EmbeddingResponse[]> {
+  const { embeddings } = await postJson<{ embeddings: EmbeddingResponse[] }>('/api/embed', body);
+  return embeddings;
+}
+
+// Check the API worker and its embedding backend
+export async function checkApiHealth(): Promise<ApiHealth> {
+  const response = await fetch(apiUrl('/api/health'), { headers: await authHeaders() });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.statusText}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,38 @@
+import { saveChatMessage, Citation, ChatMessage } from '@/lib/supabase';
+import type { RAGResponse } from './ragService';
+
+// Convert response citations to database citation format
+export function toDbCitations(response: RAGResponse): Citation[] {
+  return response.citations.map(citation => ({
+    document_id: citation.documentId,
+    chapter: citation.chapter,
+    section: citation.section,
+    page_number: citation.page ? parseInt(citation.page) : undefined,
+    edition: citation.edition,
+    relevance_score: citation.score ?? 0,
+    score_source: citation.scoreSource,
+    marker: citation.marker,
+    excerpt: citation.excerpt
+  }));
+}
+
+// Save the user's question; done before generation so a failed answer never loses it
+export async function saveUserTurn(sessionId: string, query: string): Promise<ChatMessage> {
+  return saveChatMessage(sessionId, 'user', query);
+}
+
+// Save the assistant's answer; stopped answers are marked in metadata
+export async function saveAssistantTurn(sessionId: string, response: RAGResponse): Promise<ChatMessage> {
+  return saveChatMessage(
+    sessionId,
+    'assistant',
+    response.content,
+    toDbCitations(response),
+    response.confidence,
+    {
+      ...response.metadata,
+      processingTime: response.processingTime,
+      ...(response.stopped ? { status: 'stopped' } : {})
+    }
+  );
+}
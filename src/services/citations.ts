@@ -0,0 +1,84 @@
+import type { NelsonDocument } from '@/lib/supabase';
+
+// Inline [n] citations: answers cite context chunks by their position in the prompt.
+// Pure helpers, shared by the pipeline and the browser (e.g. for stopped answers).
+
+export interface ResponseCitation {
+  // Number of the [n] marker used in the answer text
+  marker: number;
+  documentId: string;
+  chapter: string;
+  section: string;
+  page?: string;
+  edition: string;
+  // Text of the cited chunk itself (not its stitched neighbours), bounded to MAX_CITATION_EXCERPT_CHARS
+  excerpt: string;
+  // The 0-1 score the chunk was finally ranked by, and the stage that produced it
+  score?: number;
+  scoreSource?: CitationScoreSource;
+}
+
+// rerank: the reranker's relevance score; retrieval: the vector, text or hybrid search score
+export type CitationScoreSource = 'rerank' | 'retrieval';
+
+// Longest excerpt stored with a citation
+const MAX_CITATION_EXCERPT_CHARS = 600;
+
+// Find the [n] markers in an answer, including grouped forms like [1, 3]
+export function parseCitationMarkers(content: string): number[] {
+  const markers = new Set<number>();
+
+  for (const [, group] of content.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const marker of group.split(',')) {
+      markers.add(parseInt(marker.trim()));
+    }
+  }
+
+  return [...markers];
+}
+
+// Shorten cited text to whole words
+function toCitationExcerpt(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= MAX_CITATION_EXCERPT_CHARS) {
+    return trimmed;
+  }
+
+  const cut = trimmed.slice(0, MAX_CITATION_EXCERPT_CHARS);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+// The score a document was finally ranked by: the reranker's when it ran, otherwise retrieval's
+function citationScore(doc: NelsonDocument): Pick<ResponseCitation, 'score' | 'scoreSource'> {
+  if (doc.rerank_score !== undefined) {
+    return { score: doc.rerank_score, scoreSource: 'rerank' };
+  }
+  const score = doc.score ?? doc.similarity ?? doc.text_rank;
+  return score !== undefined ? { score, scoreSource: 'retrieval' } : {};
+}
+
+// Cite only the context chunks the answer actually references (and that were in the prompt)
+export function buildCitations(
+  content: string,
+  retrievedDocuments: NelsonDocument[],
+  includedMarkers?: number[]
+): ResponseCitation[] {
+  return parseCitationMarkers(content)
+    .filter(marker => marker >= 1 && marker <= retrievedDocuments.length)
+    .filter(marker => !includedMarkers || includedMarkers.includes(marker))
+    .sort((a, b) => a - b)
+    .map(marker => {
+      const doc = retrievedDocuments[marker - 1];
+      return {
+        marker,
+        documentId: doc.id,
+        chapter: doc.chapter,
+        section: doc.section,
+        page: doc.page_number?.toString(),
+        edition: doc.edition,
+        excerpt: toCitationExcerpt(doc.hit_content ?? doc.content),
+        ...citationScore(doc)
+      };
+    });
+}
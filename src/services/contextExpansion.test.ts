@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildChunkRanges, expandWithAdjacentChunks, mergeOverlappingText } from './contextExpansion';
+import type { NelsonDocument } from '@/lib/supabase';
+import type { RetrievalBackend } from './retrievalBackend';
+
+// Minimal chunk of a chapter at the given index
+function chunk(chapter: string, chunkIndex: number, content = `${chapter} chunk ${chunkIndex}`): NelsonDocument {
+  return {
+    id: `${chapter}-${chunkIndex}`,
+    chapter,
+    section: 'Section',
+    content,
+    edition: '22nd',
+    keywords: [],
+    embedding: [],
+    created_at: '',
+    updated_at: '',
+    chunk_index: chunkIndex
+  };
+}
+
+describe('buildChunkRanges', () => {
+  it('merges windows that overlap or touch, whatever the hit order', () => {
+    const hits = [chunk('Asthma', 1), chunk('Asthma', 5), chunk('Asthma', 3)];
+
+    const ranges = buildChunkRanges(hits, 1);
+
+    expect(ranges).toHaveLength(1);
+    expect(ranges[0]).toMatchObject({ chapter: 'Asthma', from: 0, to: 6 });
+  });
+
+  it('keeps separate ranges for gaps and for different chapters', () => {
+    const hits = [chunk('Asthma', 2), chunk('Asthma', 10), chunk('Croup', 3)];
+
+    const ranges = buildChunkRanges(hits, 1);
+
+    expect(ranges.map(range => [range.chapter, range.from, range.to])).toEqual([
+      ['Asthma', 1, 3],
+      ['Asthma', 9, 11],
+      ['Croup', 2, 4]
+    ]);
+  });
+
+  it('lists the hits of a merged range in rank order', () => {
+    const hits = [chunk('Asthma', 6), chunk('Asthma', 2), chunk('Asthma', 4)];
+
+    const [range] = buildChunkRanges(hits, 1);
+
+    expect(range.hits.map(hit => hit.id)).toEqual(['Asthma-6', 'Asthma-2', 'Asthma-4']);
+  });
+
+  it('skips documents without a chunk index', () => {
+    const { chunk_index: _, ...unindexed } = chunk('Asthma', 0);
+
+    expect(buildChunkRanges([unindexed], 1)).toEqual([]);
+  });
+});
+
+describe('mergeOverlappingText', () => {
+  it('drops the words the second chunk repeats', () => {
+    expect(mergeOverlappingText('Give 0.15 mg/kg of dexamethasone', 'mg/kg of dexamethasone once orally'))
+      .toBe('Give 0.15 mg/kg of dexamethasone once orally');
+  });
+
+  it('keeps both chunks apart when they do not overlap', () => {
+    expect(mergeOverlappingText('First paragraph.', 'Second paragraph.'))
+      .toBe('First paragraph.\n\nSecond paragraph.');
+  });
+});
+
+describe('expandWithAdjacentChunks', () => {
+  it('stitches each chunk once and collapses hits that share a range', async () => {
+    const chapter = [0, 1, 2, 3, 4].map(index => chunk('Asthma', index, `part ${index}`));
+    const requested: Array<[number, number]> = [];
+    const backend = {
+      getChunkRange: async (_chapter: string, from: number, to: number) => {
+        requested.push([from, to]);
+        return chapter.filter(doc => doc.chunk_index! >= from && doc.chunk_index! <= to);
+      }
+    } as unknown as RetrievalBackend;
+
+    const expanded = await expandWithAdjacentChunks([chapter[3], chapter[1]], 1, backend);
+
+    expect(requested).toEqual([[0, 4]]);
+    expect(expanded).toHaveLength(1);
+    expect(expanded[0]).toMatchObject({ id: 'Asthma-3', hit_content: 'part 3', context_range: [0, 4] });
+    expect(expanded[0].content.match(/part 2/g)).toHaveLength(1);
+  });
+});
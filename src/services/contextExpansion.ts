@@ -0,0 +1,126 @@
+import { NelsonDocument } from '@/lib/supabase';
+import { supabaseRetrievalBackend, RetrievalBackend } from './retrievalBackend';
+
+// Widens retrieved chunks with their neighbours (chunk_index ± window in the same chapter)
+// so tables and dosing lists are not cut mid-sentence, then stitches each run of chunks
+// into one document, dropping the text repeated by chunk overlap.
+
+// Longest run of words checked when removing the overlap between consecutive chunks
+const MAX_OVERLAP_WORDS = 80;
+
+export interface ChunkRange {
+  chapter: string;
+  from: number;
+  to: number;
+  hits: NelsonDocument[];
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Join two consecutive chunks, removing the words the second repeats from the end of the first
+export function mergeOverlappingText(first: string, second: string): string {
+  const firstWords = first.trim().split(/\s+/);
+  const secondWords = second.trim().split(/\s+/);
+  const normalizedFirst = firstWords.map(normalizeWord);
+  const normalizedSecond = secondWords.map(normalizeWord);
+
+  const maxOverlap = Math.min(MAX_OVERLAP_WORDS, firstWords.length, secondWords.length);
+  for (let size = maxOverlap; size > 0; size--) {
+    const suffix = normalizedFirst.slice(-size);
+    if (suffix.every((word, index) => word === normalizedSecond[index])) {
+      return [...firstWords, ...secondWords.slice(size)].join(' ');
+    }
+  }
+
+  return `${first.trim()}\n\n${second.trim()}`;
+}
+
+// Group hits into per-chapter index ranges, merging ranges that touch or overlap.
+// Each range lists its hits in rank order, best first.
+export function buildChunkRanges(documents: NelsonDocument[], window: number): ChunkRange[] {
+  const rankOf = new Map(documents.map((doc, index) => [doc, index]));
+  const windows = documents
+    .flatMap(doc => doc.chunk_index === undefined ? [] : [{
+      chapter: doc.chapter,
+      from: Math.max(0, doc.chunk_index - window),
+      to: doc.chunk_index + window,
+      hits: [doc]
+    }])
+    .sort((a, b) => a.chapter.localeCompare(b.chapter) || a.from - b.from);
+
+  const ranges: ChunkRange[] = [];
+  for (const current of windows) {
+    const previous = ranges[ranges.length - 1];
+    if (previous && previous.chapter === current.chapter && current.from <= previous.to + 1) {
+      previous.to = Math.max(previous.to, current.to);
+      previous.hits.push(...current.hits);
+    } else {
+      ranges.push(current);
+    }
+  }
+
+  for (const range of ranges) {
+    range.hits.sort((a, b) => rankOf.get(a)! - rankOf.get(b)!);
+  }
+  return ranges;
+}
+
+// Stitch a run of chunks into one document that keeps the identity and scores of its best hit
+function stitchRange(range: ChunkRange, chunks: NelsonDocument[]): NelsonDocument {
+  const [bestHit] = range.hits;
+  const content = chunks.reduce((text, chunk) => (text ? mergeOverlappingText(text, chunk.content) : chunk.content), '');
+  const indexes = chunks.map(chunk => chunk.chunk_index ?? bestHit.chunk_index ?? 0);
+
+  return {
+    ...bestHit,
+    content: content || bestHit.content,
+    hit_content: bestHit.content,
+    content_hash: chunks.length > 0 && chunks.every(chunk => chunk.content_hash)
+      ? chunks.map(chunk => chunk.content_hash).join('+')
+      : undefined,
+    page_number: chunks.find(chunk => chunk.page_number)?.page_number ?? bestHit.page_number,
+    context_range: chunks.length > 0 ? [Math.min(...indexes), Math.max(...indexes)] : undefined
+  };
+}
+
+// Add neighbouring chunks to ranked documents; rank order (and so [n] numbering) is kept
+export async function expandWithAdjacentChunks(
+  documents: NelsonDocument[],
+  window: number,
+  backend: RetrievalBackend = supabaseRetrievalBackend
+): Promise<NelsonDocument[]> {
+  if (window <= 0 || documents.length === 0) {
+    return documents;
+  }
+
+  const ranges = buildChunkRanges(documents, window);
+
+  const stitched = await Promise.all(ranges.map(async range => {
+    try {
+      const chunks = await backend.getChunkRange(range.chapter, range.from, range.to);
+      return stitchRange(range, chunks);
+    } catch (error) {
+      console.warn(`Could not expand context for chapter "${range.chapter}":`, error);
+      return null;
+    }
+  }));
+
+  const expanded: NelsonDocument[] = [];
+  const seen = new Set<string>();
+
+  for (const doc of documents) {
+    const rangeIndex = ranges.findIndex(range => range.hits.includes(doc));
+    const replacement = rangeIndex >= 0 ? stitched[rangeIndex] : null;
+
+    // Hits that share a range collapse into the document of the best-ranked one
+    const result = replacement ?? doc;
+    if (seen.has(result.id)) continue;
+
+    seen.add(result.id);
+    expanded.push(result);
+  }
+
+  return expanded;
+}
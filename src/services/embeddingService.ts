@@ -1,11 +1,28 @@
+import type { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from '@/workers/embedding.worker';
+
+import { createIndexedDBStore, createLRUCache } from '@/lib/cache';
+import { readEnv } from '@/lib/env';
+import { chunkText } from './textChunker';
+
 const HF_API_URL = 'https://api-inference.huggingface.co/models';
-const HF_API_KEY = import.meta.env.VITE_HF_API_KEY;
-const EMBEDDING_MODEL = import.meta.env.VITE_EMBEDDING_MODEL || 'thenlper/gte-small';
 const EXPECTED_EMBEDDING_DIMENSION = 384; // Your embeddings are 384-dimensional
 
-if (!HF_API_KEY) {
-  throw new Error('Missing Hugging Face API key');
-}
+// Query embeddings are cached in memory and, in the browser, in IndexedDB so repeated
+// and follow-up questions skip the model. Only real model vectors are cached.
+const QUERY_EMBEDDING_CACHE_SIZE = 500;
+const QUERY_EMBEDDING_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const queryEmbeddingCache = createLRUCache<EmbeddingResponse>(QUERY_EMBEDDING_CACHE_SIZE);
+const persistedQueryEmbeddings = createIndexedDBStore<EmbeddingResponse>(
+  'nelson-embeddings',
+  'queries',
+  QUERY_EMBEDDING_MAX_AGE_MS
+);
+
+// Where query/document embeddings are computed:
+// - local: in-process ONNX model (Web Worker in the browser, same thread in Node)
+// - huggingface: Hugging Face Inference API
+// - hash: bag-of-words hash vectors, only useful when no model is reachable
+export type EmbeddingBackend = 'local' | 'huggingface' | 'hash';
 
 export interface EmbeddingResponse {
   embedding: number[];
@@ -13,102 +30,207 @@ export interface EmbeddingResponse {
   tokens: number;
 }
 
-// Generate embeddings for medical text
-export async function generateEmbedding(text: string): Promise<EmbeddingResponse> {
+// Get the embedding backend selected through VITE_EMBEDDING_BACKEND
+export function getEmbeddingBackend(): EmbeddingBackend {
+  const value = readEnv('VITE_EMBEDDING_BACKEND');
+  return value === 'huggingface' || value === 'hash' ? value : 'local';
+}
+
+// Get the embedding model the Nelson index was built with
+export function getEmbeddingModel(): string {
+  return readEnv('VITE_EMBEDDING_MODEL') || 'thenlper/gte-small';
+}
+
+// Server-side only: the key is never part of the browser bundle
+function getHuggingFaceApiKey(): string | undefined {
+  return readEnv('HF_API_KEY');
+}
+
+// Refuse to embed queries for an index whose vectors came from a different model
+export function assertIndexEmbeddingModel(indexModel: string | null | undefined): void {
+  const model = getEmbeddingModel();
+  if (indexModel && indexModel !== model) {
+    throw new Error(
+      `The Nelson index was embedded with ${indexModel}, but queries use ${model}. ` +
+      'Set VITE_EMBEDDING_MODEL to the index model or run the re-embed job.'
+    );
+  }
+}
+
+// Generate embeddings for medical text; pass the searched index's model to guard against mismatches
+export async function generateEmbedding(
+  text: string,
+  backend: EmbeddingBackend = getEmbeddingBackend(),
+  indexModel?: string | null
+): Promise<EmbeddingResponse> {
+  assertIndexEmbeddingModel(indexModel);
+
+  const model = getEmbeddingModel();
+  const cacheKey = `${backend}:${model}:${preprocessMedicalText(text)}`;
+  const cached = queryEmbeddingCache.get(cacheKey) ?? await persistedQueryEmbeddings?.get(cacheKey);
+  if (cached) {
+    queryEmbeddingCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const [response] = await generateEmbeddings([text], backend);
+  if (response.model === model) {
+    queryEmbeddingCache.set(cacheKey, response);
+    void persistedQueryEmbeddings?.set(cacheKey, response);
+  }
+  return response;
+}
+
+// Batch generate embeddings for multiple texts
+export async function generateEmbeddings(
+  texts: string[],
+  backend: EmbeddingBackend = getEmbeddingBackend()
+): Promise<EmbeddingResponse[]> {
+  const cleanTexts = texts.map(preprocessMedicalText);
+
   try {
-    // Clean and preprocess text
-    const cleanText = preprocessMedicalText(text);
-    
-    // Fallback: Use simple text-based embedding for now
-    // This creates a basic numerical representation based on text characteristics
-    const fallbackEmbedding = generateFallbackEmbedding(cleanText);
-    
-    return {
-      embedding: fallbackEmbedding,
-      model: 'fallback-text-embedding',
-      tokens: estimateTokenCount(cleanText)
-    };
-    
-    /* Temporarily disabled Hugging Face API due to configuration issues
-    const response = await fetch(`${HF_API_URL}/${EMBEDDING_MODEL}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        inputs: cleanText,
-        options: {
-          wait_for_model: true,
-          use_cache: true
-        }
-      })
-    });
+    let embeddings: number[][];
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Hugging Face API error: ${errorData.error || response.statusText}`);
+    if (backend === 'local') {
+      embeddings = await generateLocalEmbeddings(cleanTexts);
+    } else if (backend === 'huggingface') {
+      embeddings = await generateHuggingFaceEmbeddings(cleanTexts);
+    } else {
+      return cleanTexts.map(buildFallbackResponse);
     }
 
-    const embedding = await response.json();
-    
-    if (!Array.isArray(embedding) || embedding.length === 0) {
-      throw new Error('Invalid embedding response format');
+    embeddings.forEach(validateEmbeddingDimension);
+
+    return embeddings.map((embedding, index) => ({
+      embedding,
+      model: getEmbeddingModel(),
+      tokens: estimateTokenCount(cleanTexts[index])
+    }));
+
+  } catch (error) {
+    // Hash vectors are not in the index's embedding space, so they are never substituted here
+    console.error(`Embedding generation error (${backend} backend):`, error);
+    throw new Error(`Failed to generate embeddings with the ${backend} backend`);
+  }
+}
+
+// Embed with the local ONNX model, off the main thread when running in a browser
+async function generateLocalEmbeddings(texts: string[]): Promise<number[][]> {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    const { runLocalEmbedding } = await import('./localEmbeddingModel');
+    return runLocalEmbedding(texts, getEmbeddingModel());
+  }
+
+  return requestWorkerEmbeddings(texts);
+}
+
+let embeddingWorker: Worker | null = null;
+let nextWorkerRequestId = 0;
+const pendingWorkerRequests = new Map<number, {
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}>();
+
+// Lazily start the embedding Web Worker shared by all requests
+function getEmbeddingWorker(): Worker {
+  if (embeddingWorker) {
+    return embeddingWorker;
+  }
+
+  embeddingWorker = new Worker(new URL('../workers/embedding.worker.ts', import.meta.url), { type: 'module' });
+
+  embeddingWorker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+    const pending = pendingWorkerRequests.get(event.data.id);
+    if (!pending) return;
+
+    pendingWorkerRequests.delete(event.data.id);
+    if ('error' in event.data) {
+      pending.reject(new Error(event.data.error));
+    } else {
+      pending.resolve(event.data.embeddings);
     }
+  };
+
+  embeddingWorker.onerror = (event) => {
+    // A crashed worker fails every in-flight request; the next call starts a new one
+    const error = new Error(`Embedding worker error: ${event.message}`);
+    pendingWorkerRequests.forEach(pending => pending.reject(error));
+    pendingWorkerRequests.clear();
+    embeddingWorker?.terminate();
+    embeddingWorker = null;
+  };
+
+  return embeddingWorker;
+}
+
+function requestWorkerEmbeddings(texts: string[]): Promise<number[][]> {
+  const worker = getEmbeddingWorker();
+  const id = nextWorkerRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pendingWorkerRequests.set(id, { resolve, reject });
+    worker.postMessage({ id, texts, model: getEmbeddingModel() } satisfies EmbeddingWorkerRequest);
+  });
+}
+
+// Embed with the Hugging Face Inference API
+async function generateHuggingFaceEmbeddings(texts: string[]): Promise<number[][]> {
+  const apiKey = getHuggingFaceApiKey();
+  if (!apiKey) {
+    throw new Error('Missing Hugging Face API key');
+  }
+
+  const response = await fetch(`${HF_API_URL}/${getEmbeddingModel()}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      inputs: texts,
+      options: {
+        wait_for_model: true,
+        use_cache: true
+      }
+    })
+  });
 
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Hugging Face API error: ${errorData.error || response.statusText}`);
+  }
+
+  const embeddings = await response.json();
+
+  if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+    throw new Error('Invalid embedding response format');
+  }
+
+  return embeddings.map((embedding: any) => {
     // Ensure we have a flat array of numbers (some models return nested arrays)
     const flatEmbedding = Array.isArray(embedding[0]) ? embedding[0] : embedding;
-    
+
     if (!flatEmbedding.every((val: any) => typeof val === 'number')) {
       throw new Error('Invalid embedding values - expected numbers');
     }
 
-    // Validate embedding dimension
-    if (flatEmbedding.length !== EXPECTED_EMBEDDING_DIMENSION) {
-      console.warn(`Embedding dimension mismatch: expected ${EXPECTED_EMBEDDING_DIMENSION}, got ${flatEmbedding.length}`);
-    }
-
-    return {
-      embedding: flatEmbedding,
-      model: EMBEDDING_MODEL,
-      tokens: estimateTokenCount(cleanText)
-    };
-    */
+    return flatEmbedding;
+  });
+}
 
-  } catch (error) {
-    console.error('Embedding generation error:', error);
-    
-    // Fallback to text-based embedding
-    const cleanText = preprocessMedicalText(text);
-    const fallbackEmbedding = generateFallbackEmbedding(cleanText);
-    
-    return {
-      embedding: fallbackEmbedding,
-      model: 'fallback-text-embedding',
-      tokens: estimateTokenCount(cleanText)
-    };
+// Validate embedding dimension against the pgvector column
+function validateEmbeddingDimension(embedding: number[]): void {
+  if (embedding.length !== EXPECTED_EMBEDDING_DIMENSION) {
+    throw new Error(`Embedding dimension mismatch: expected ${EXPECTED_EMBEDDING_DIMENSION}, got ${embedding.length}`);
   }
 }
 
-// Batch generate embeddings for multiple texts
-export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResponse[]> {
-  try {
-    // Use fallback embeddings for batch processing
-    const cleanTexts = texts.map(preprocessMedicalText);
-    
-    return cleanTexts.map(text => {
-      const fallbackEmbedding = generateFallbackEmbedding(text);
-      return {
-        embedding: fallbackEmbedding,
-        model: 'fallback-text-embedding',
-        tokens: estimateTokenCount(text)
-      };
-    });
-
-  } catch (error) {
-    console.error('Batch embedding generation error:', error);
-    throw new Error('Failed to generate batch embeddings');
-  }
+function buildFallbackResponse(text: string): EmbeddingResponse {
+  return {
+    embedding: generateFallbackEmbedding(text),
+    model: 'fallback-text-embedding',
+    tokens: estimateTokenCount(text)
+  };
 }
 
 // Preprocess medical text for better embeddings
@@ -117,7 +239,7 @@ function preprocessMedicalText(text: string): string {
     // Normalize whitespace
     .replace(/\s+/g, ' ')
     // Remove excessive punctuation
-    .replace(/[\.]{2,}/g, '.')
+    .replace(/[.]{2,}/g, '.')
     // Preserve medical abbreviations and units
     .replace(/(\d+)\s*(mg|kg|ml|cm|mm|mcg|IU|mEq)/g, '$1$2')
     // Clean up common medical formatting
@@ -187,11 +309,24 @@ export async function performSemanticSearch(
 
 // Validate embedding model availability
 export async function validateEmbeddingModel(): Promise<boolean> {
+  if (getEmbeddingBackend() === 'hash') {
+    return false;
+  }
+
+  if (getEmbeddingBackend() === 'local') {
+    try {
+      await generateLocalEmbeddings(['test']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   try {
-    const testResponse = await fetch(`${HF_API_URL}/${EMBEDDING_MODEL}`, {
+    const testResponse = await fetch(`${HF_API_URL}/${getEmbeddingModel()}`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
+        'Authorization': `Bearer ${getHuggingFaceApiKey()}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
@@ -248,32 +383,8 @@ function simpleHash(str: string): number {
   return Math.abs(hash);
 }
 
-// Medical-specific text chunking for embeddings
+// Split text into chunks of about maxChunkSize characters, repeating `overlap` characters
+// between consecutive chunks; see chunkText for the structure rules and chunk metadata
 export function chunkMedicalText(text: string, maxChunkSize: number = 500, overlap: number = 50): string[] {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  const chunks: string[] = [];
-  let currentChunk = '';
-  
-  for (const sentence of sentences) {
-    const trimmedSentence = sentence.trim();
-    
-    // If adding this sentence would exceed chunk size, start a new chunk
-    if (currentChunk.length + trimmedSentence.length > maxChunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      
-      // Create overlap by taking the last few words from the previous chunk
-      const words = currentChunk.trim().split(/\s+/);
-      const overlapWords = words.slice(-overlap).join(' ');
-      currentChunk = overlapWords + ' ' + trimmedSentence;
-    } else {
-      currentChunk += (currentChunk ? '. ' : '') + trimmedSentence;
-    }
-  }
-  
-  // Add the last chunk if it has content
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks;
+  return chunkText(text, { maxChunkSize, overlap }).map(chunk => chunk.content);
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from './llmProvider';
+
+const context = [
+  '[1] **Chapter Acute Otitis Media - Treatment**\n(Edition: 22nd)\n\n' +
+    'Acute otitis media is diagnosed by bulging of the tympanic membrane. ' +
+    'Amoxicillin at 80 to 90 mg/kg/day is the first-line antibiotic for acute otitis media in most children.\n\n---\n',
+  '[2] **Chapter Kawasaki Disease - Treatment**\n(Edition: 22nd)\n\n' +
+    'Initial treatment of Kawasaki disease is intravenous immunoglobulin (IVIG) with aspirin.\n\n---\n'
+].join('\n');
+
+// Ask the mock provider a question over the fixture context
+function ask(query: string): Promise<string> {
+  return createMockProvider().complete([
+    { role: 'system', content: 'Answer from the context.' },
+    { role: 'user', content: `Context from Nelson Textbook of Pediatrics:\n\n${context}\n\nUser Query: ${query}\n\nPlease answer.` }
+  ]);
+}
+
+describe('mock provider', () => {
+  it('quotes and cites only the context sentences that match the question', async () => {
+    const answer = await ask('What is the first-line antibiotic for otitis media?');
+
+    expect(answer).toContain('Amoxicillin at 80 to 90 mg/kg/day is the first-line antibiotic for acute otitis media in most children. [1]');
+    expect(answer).not.toContain('Kawasaki');
+  });
+
+  it('matches acronyms in the question', async () => {
+    expect(await ask('When is IVIG given in Kawasaki disease?')).toContain('immunoglobulin (IVIG) with aspirin. [2]');
+  });
+
+  it('declines when no context sentence covers the question', async () => {
+    expect(await ask('What is the target blood pressure for adults with chronic kidney disease?'))
+      .toBe('The provided Nelson Textbook context does not contain information about What is the target blood pressure for adults with chronic kidney disease?.');
+  });
+});
@@ -0,0 +1,261 @@
+import { readEnv } from '@/lib/env';
+
+// Chat-completion backends used to generate Nelson-GPT answers. Selected with LLM_PROVIDER:
+// - mistral: Mistral La Plateforme (MISTRAL_API_KEY)
+// - openai-compatible: any /chat/completions server, e.g. llama.cpp, Ollama or vLLM (LLM_BASE_URL)
+// - mock: deterministic offline responses for development and evaluation
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<string>;
+  stream(messages: LLMMessage[], options?: LLMCompletionOptions): AsyncGenerator<string, void, unknown>;
+}
+
+export type LLMProviderType = 'mistral' | 'openai-compatible' | 'mock';
+
+export interface OpenAICompatibleProviderOptions {
+  name?: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string;
+    };
+  }[];
+}
+
+const MISTRAL_BASE_URL = 'https://api.mistral.ai/v1';
+const DEFAULT_MISTRAL_MODEL = 'mistral-large-latest';
+
+// Provider for any server implementing the OpenAI chat-completions API
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): LLMProvider {
+  const name = options.name || 'openai-compatible';
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = (messages: LLMMessage[], completionOptions: LLMCompletionOptions, stream: boolean) =>
+    fetch(endpoint, {
+      method: 'POST',
+      signal: completionOptions.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        temperature: completionOptions.temperature ?? 0.1,
+        max_tokens: completionOptions.maxTokens,
+        top_p: completionOptions.topP ?? 0.9,
+        stream
+      })
+    });
+
+  return {
+    name,
+    model: options.model,
+
+    async complete(messages, completionOptions = {}) {
+      const response = await request(messages, completionOptions, false);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${name} API error: ${errorData.error?.message || response.statusText}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content || '';
+
+      if (!content) {
+        throw new Error(`No response content from ${name} API`);
+      }
+
+      return content;
+    },
+
+    async *stream(messages, completionOptions = {}) {
+      const response = await request(messages, completionOptions, true);
+
+      if (!response.ok) {
+        throw new Error(`${name} API error: ${response.statusText}`);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body reader available');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+
+          // Keep a trailing partial line for the next read
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            if (!line.trim().startsWith('data: ')) continue;
+
+            const data = line.replace('data: ', '').trim();
+            if (data === '[DONE]') {
+              return;
+            }
+
+            try {
+              const parsed: ChatCompletionStreamChunk = JSON.parse(data);
+              const content = parsed.choices?.[0]?.delta?.content;
+              if (content) {
+                yield content;
+              }
+            } catch {
+              // Skip malformed JSON chunks
+              continue;
+            }
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    }
+  };
+}
+
+// Provider for the Mistral API, which speaks the OpenAI chat-completions protocol
+export function createMistralProvider(apiKey: string, model: string = DEFAULT_MISTRAL_MODEL): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'mistral',
+    baseUrl: MISTRAL_BASE_URL,
+    model,
+    apiKey
+  });
+}
+
+// Deterministic provider that answers from the context in the prompt, for offline use
+export function createMockProvider(
+  respond: (messages: LLMMessage[]) => string = buildMockResponse,
+  model: string = 'mock-nelson'
+): LLMProvider {
+  return {
+    name: 'mock',
+    model,
+
+    async complete(messages) {
+      return respond(messages);
+    },
+
+    async *stream(messages, completionOptions = {}) {
+      // Stream word by word so consumers exercise their incremental rendering
+      const content = respond(messages);
+      for (const piece of content.match(/\S+\s*/g) || []) {
+        completionOptions.signal?.throwIfAborted();
+        yield piece;
+      }
+    }
+  };
+}
+
+// The mock quotes context sentences sharing at least this many question terms (and at
+// least MOCK_MIN_OVERLAP_SHARE of them), at most MOCK_MAX_FINDINGS of them
+const MOCK_MIN_OVERLAP = 2;
+const MOCK_MIN_OVERLAP_SHARE = 0.4;
+const MOCK_MAX_FINDINGS = 3;
+
+const MOCK_STOPWORDS = new Set([
+  'what', 'which', 'when', 'where', 'with', 'from', 'that', 'this', 'these', 'those', 'there', 'their',
+  'they', 'them', 'does', 'have', 'should', 'would', 'could', 'into', 'than', 'about', 'after', 'such'
+]);
+
+// Word stems (first five letters) of the content words and acronyms in a text
+function mockTerms(text: string): Set<string> {
+  return new Set((text.match(/[A-Za-z0-9]+/g) || [])
+    .filter(word => /^[A-Z]{2,}$/.test(word) || (word.length > 3 && !MOCK_STOPWORDS.has(word.toLowerCase())))
+    .map(word => word.toLowerCase().slice(0, 5)));
+}
+
+// Quote the context sentences that best match the question, citing their chunks, or
+// decline when none of the context covers it
+function buildMockResponse(messages: LLMMessage[]): string {
+  const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  const query = prompt.match(/User Query: (.*)/)?.[1]?.trim() || 'the question';
+  const queryTerms = mockTerms(query);
+  const minOverlap = Math.max(MOCK_MIN_OVERLAP, Math.ceil(queryTerms.size * MOCK_MIN_OVERLAP_SHARE));
+
+  const candidates = [...prompt.matchAll(/\[(\d+)\] \*\*Chapter (.+?)\*\*[^\n]*\n[^\n]*\n\n([\s\S]*?)\n\n---/g)]
+    .flatMap(([, marker, heading, text]) => text
+      .split(/(?<=[.!?])\s+(?=[A-Z])/)
+      .map(sentence => ({
+        marker,
+        heading,
+        sentence: sentence.trim(),
+        overlap: [...mockTerms(sentence)].filter(term => queryTerms.has(term)).length
+      })));
+
+  // Stitched neighbouring chunks can repeat a sentence; each is quoted once
+  const findings: string[] = [];
+  const quoted = new Set<string>();
+  for (const { marker, heading, sentence, overlap } of candidates.sort((a, b) => b.overlap - a.overlap)) {
+    if (overlap < minOverlap || findings.length === MOCK_MAX_FINDINGS) break;
+    if (quoted.has(sentence)) continue;
+
+    quoted.add(sentence);
+    findings.push(`- **Chapter ${heading}**: ${sentence} [${marker}]`);
+  }
+
+  if (findings.length === 0) {
+    return `The provided Nelson Textbook context does not contain information about ${query}.`;
+  }
+
+  return `## Summary\n\n${findings.join('\n')}\n\n*Mock response generated offline from the retrieved context.*`;
+}
+
+// Build the provider selected through LLM_PROVIDER, LLM_BASE_URL, LLM_MODEL and LLM_API_KEY
+export function getLLMProvider(): LLMProvider {
+  const providerType = (readEnv('LLM_PROVIDER') || 'mistral') as LLMProviderType;
+  const model = readEnv('LLM_MODEL');
+
+  switch (providerType) {
+    case 'mock':
+      return createMockProvider();
+
+    case 'openai-compatible': {
+      const baseUrl = readEnv('LLM_BASE_URL');
+      if (!baseUrl || !model) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider');
+      }
+      return createOpenAICompatibleProvider({ baseUrl, model, apiKey: readEnv('LLM_API_KEY') });
+    }
+
+    case 'mistral': {
+      const apiKey = readEnv('MISTRAL_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing Mistral API key');
+      }
+      return createMistralProvider(apiKey, model || DEFAULT_MISTRAL_MODEL);
+    }
+
+    default:
+      throw new Error(`Unknown LLM provider: ${providerType}`);
+  }
+}
@@ -0,0 +1,47 @@
+import { pipeline, env, type FeatureExtractionPipeline } from '@huggingface/transformers';
+
+// ONNX exports of the sentence-transformer models used to build the Nelson index.
+// Both produce 384-dimensional, mean-pooled, L2-normalized embeddings.
+const LOCAL_MODEL_IDS: Record<string, string> = {
+  'thenlper/gte-small': 'Xenova/gte-small',
+  'sentence-transformers/all-MiniLM-L6-v2': 'Xenova/all-MiniLM-L6-v2',
+};
+
+// Models are fetched from the Hugging Face Hub and cached by the runtime
+env.allowLocalModels = false;
+
+// Narrow the generic pipeline factory; its full task union is too large for the type checker
+const createFeatureExtractor = pipeline as (
+  task: 'feature-extraction',
+  model: string,
+  options?: { dtype?: 'fp32' | 'q8' }
+) => Promise<FeatureExtractionPipeline>;
+
+const extractors = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+// Resolve the ONNX model repository for a configured embedding model
+export function resolveLocalModelId(model: string): string {
+  return LOCAL_MODEL_IDS[model] || model;
+}
+
+// Load (once per model) the CPU feature-extraction pipeline
+function getFeatureExtractor(model: string): Promise<FeatureExtractionPipeline> {
+  const modelId = resolveLocalModelId(model);
+  let extractor = extractors.get(modelId);
+
+  if (!extractor) {
+    extractor = createFeatureExtractor('feature-extraction', modelId, { dtype: 'fp32' });
+    extractors.set(modelId, extractor);
+    // Allow a retry on the next call if the model failed to load
+    extractor.catch(() => extractors.delete(modelId));
+  }
+
+  return extractor;
+}
+
+// Run the embedding model in the current thread (Node scripts and the Web Worker)
+export async function runLocalEmbedding(texts: string[], model: string): Promise<number[][]> {
+  const extractor = await getFeatureExtractor(model);
+  const output = await extractor(texts, { pooling: 'mean', normalize: true });
+  return output.tolist() as number[][];
+}
@@ -0,0 +1,56 @@
+import {
+  AutoTokenizer,
+  AutoModelForSequenceClassification,
+  env,
+  type PreTrainedTokenizer,
+  type PreTrainedModel
+} from '@huggingface/transformers';
+
+// ONNX export of the MS MARCO cross-encoder used to rerank retrieved chunks
+export const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+// Models are fetched from the Hugging Face Hub and cached by the runtime
+env.allowLocalModels = false;
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+const crossEncoders = new Map<string, Promise<CrossEncoder>>();
+
+// Load (once per model) the tokenizer and sequence-classification head
+function getCrossEncoder(modelId: string): Promise<CrossEncoder> {
+  let crossEncoder = crossEncoders.get(modelId);
+
+  if (!crossEncoder) {
+    crossEncoder = Promise.all([
+      AutoTokenizer.from_pretrained(modelId),
+      AutoModelForSequenceClassification.from_pretrained(modelId, { dtype: 'fp32' })
+    ]).then(([tokenizer, model]) => ({ tokenizer, model }));
+    crossEncoders.set(modelId, crossEncoder);
+    // Allow a retry on the next call if the model failed to load
+    crossEncoder.catch(() => crossEncoders.delete(modelId));
+  }
+
+  return crossEncoder;
+}
+
+// Score query/passage pairs with the cross-encoder; returns one relevance probability per passage
+export async function runLocalCrossEncoder(
+  query: string,
+  passages: string[],
+  modelId: string = DEFAULT_CROSS_ENCODER_MODEL
+): Promise<number[]> {
+  const { tokenizer, model } = await getCrossEncoder(modelId);
+
+  const inputs = tokenizer(passages.map(() => query), {
+    text_pair: passages,
+    padding: true,
+    truncation: true
+  });
+  const { logits } = await model(inputs);
+
+  // Single-logit relevance head; squash to 0-1 so scores read like the retrieval scores
+  return (logits.tolist() as number[][]).map(([logit]) => 1 / (1 + Math.exp(-logit)));
+}
@@ -1,45 +1,26 @@
 import { NelsonDocument } from '@/lib/supabase';
-
-const MISTRAL_API_URL = 'https://api.mistral.ai/v1/chat/completions';
-const MISTRAL_API_KEY = import.meta.env.VITE_MISTRAL_API_KEY;
-
-if (!MISTRAL_API_KEY) {
-  throw new Error('Missing Mistral API key');
+import { readEnv } from '@/lib/env';
+import { getLLMProvider, LLMMessage, LLMProvider } from './llmProvider';
+import type { VerificationResult } from './verificationService';
+import { buildBudgetedPrompt, getPromptBudget, BuiltPrompt, PromptStats } from './promptBuilder';
+import { buildCitations, ResponseCitation } from './citations';
+
+function getMaxResponseTokens(): number {
+  return parseInt(readEnv('VITE_MAX_RESPONSE_TOKENS') || '2048');
 }
 
-export interface MistralMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-export interface MistralStreamResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: {
-    index: number;
-    delta: {
-      role?: string;
-      content?: string;
-    };
-    finish_reason?: string;
-  }[];
-}
+// Kept under its original name; messages are provider-agnostic
+export type MistralMessage = LLMMessage;
 
 export interface GeneratedResponse {
   content: string;
-  confidence: 'high' | 'medium' | 'low';
-  citations: Array<{
-    chapter: string;
-    section: string;
-    page?: string;
-    edition: string;
-  }>;
+  citations: ResponseCitation[];
+  // Token usage and the context chunks that fit the prompt budget
+  prompt: PromptStats;
 }
 
 // System prompt for Nelson-GPT
-const NELSON_SYSTEM_PROMPT = `You are Nelson-GPT, an advanced pediatric medical AI assistant powered exclusively by the Nelson Textbook of Pediatrics (22nd Edition). Your responses must follow this strict chain of thought process:
+export const NELSON_SYSTEM_PROMPT = `You are Nelson-GPT, an advanced pediatric medical AI assistant powered exclusively by the Nelson Textbook of Pediatrics (22nd Edition). Your responses must follow this strict chain of thought process:
 
 1. UNDERSTAND → Parse the medical query with precision
 2. BASICS → Identify the relevant pediatric domain (cardiology, neonatology, etc.)
@@ -51,7 +32,8 @@ const NELSON_SYSTEM_PROMPT = `You are Nelson-GPT, an advanced pediatric medical
 
 CRITICAL REQUIREMENTS:
 - Only provide information from the Nelson Textbook context provided
-- Always include specific citations (chapter, section, page when available)
+- Each context chunk is labelled with a number such as [1]; cite every statement inline with the number of the chunk that supports it, e.g. "... first-line therapy [2]." or "[1][3]"
+- Only cite chunks you actually used, and never invent citation numbers
 - Use professional medical terminology appropriate for healthcare professionals
 - Format responses in markdown with clear structure
 - If information isn't in the provided context, explicitly state this limitation
@@ -66,77 +48,48 @@ For each response, provide:
 - Relevant warnings or contraindications
 - Age-specific considerations when applicable`;
 
+// Build the chat messages sent to the LLM for a query and its retrieved context,
+// fitted to the model's context window
+function buildMedicalMessages(
+  userQuery: string,
+  retrievedDocuments: NelsonDocument[],
+  conversationHistory: MistralMessage[],
+  systemPrompt: string = NELSON_SYSTEM_PROMPT
+): BuiltPrompt {
+  return buildBudgetedPrompt(
+    systemPrompt,
+    contextText => `Context from Nelson Textbook of Pediatrics:\n\n${contextText}\n\nUser Query: ${userQuery}\n\nPlease provide a comprehensive, evidence-based response following the chain of thought process.`,
+    retrievedDocuments,
+    conversationHistory,
+    getPromptBudget(getMaxResponseTokens())
+  );
+}
+
 // Generate response using retrieved context
 export async function generateMedicalResponse(
   userQuery: string,
   retrievedDocuments: NelsonDocument[],
-  conversationHistory: MistralMessage[] = []
+  conversationHistory: MistralMessage[] = [],
+  provider: LLMProvider = getLLMProvider(),
+  systemPrompt?: string
 ): Promise<GeneratedResponse> {
   try {
-    // Build context from retrieved documents
-    const contextText = retrievedDocuments
-      .map(doc => 
-        `**Chapter ${doc.chapter} - ${doc.section}**${doc.subsection ? ` - ${doc.subsection}` : ''}\n` +
-        `(Edition: ${doc.edition}${doc.page_number ? `, Page: ${doc.page_number}` : ''})\n\n` +
-        `${doc.content}\n\n---\n`
-      )
-      .join('\n');
-
-    const messages: MistralMessage[] = [
-      { role: 'system', content: NELSON_SYSTEM_PROMPT },
-      ...conversationHistory,
-      {
-        role: 'user',
-        content: `Context from Nelson Textbook of Pediatrics:\n\n${contextText}\n\nUser Query: ${userQuery}\n\nPlease provide a comprehensive, evidence-based response following the chain of thought process.`
-      }
-    ];
+    const { messages, stats } = buildMedicalMessages(userQuery, retrievedDocuments, conversationHistory, systemPrompt);
 
-    const response = await fetch(MISTRAL_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${MISTRAL_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'mistral-large-latest',
-        messages,
-        temperature: 0.1, // Low temperature for medical accuracy
-        max_tokens: parseInt(import.meta.env.VITE_MAX_RESPONSE_TOKENS || '2048'),
-        top_p: 0.9
-      })
+    const content = await provider.complete(messages, {
+      temperature: 0.1, // Low temperature for medical accuracy
+      maxTokens: getMaxResponseTokens(),
+      topP: 0.9
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Mistral API error: ${errorData.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
-
-    if (!content) {
-      throw new Error('No response content from Mistral API');
-    }
-
-    // Extract citations and determine confidence
-    const citations = retrievedDocuments.map(doc => ({
-      chapter: doc.chapter,
-      section: doc.section,
-      page: doc.page_number?.toString(),
-      edition: doc.edition
-    }));
-
-    // Determine confidence based on retrieved document relevance and content quality
-    const confidence = determineConfidence(retrievedDocuments, content);
-
     return {
       content,
-      confidence,
-      citations
+      citations: buildCitations(content, retrievedDocuments, stats.includedDocuments),
+      prompt: stats
     };
 
   } catch (error) {
-    console.error('Mistral API error:', error);
+    console.error(`LLM provider error (${provider.name}):`, error);
     throw new Error('Failed to generate medical response');
   }
 }
@@ -145,125 +98,62 @@ export async function generateMedicalResponse(
 export async function* streamMedicalResponse(
   userQuery: string,
   retrievedDocuments: NelsonDocument[],
-  conversationHistory: MistralMessage[] = []
+  conversationHistory: MistralMessage[] = [],
+  provider: LLMProvider = getLLMProvider(),
+  signal?: AbortSignal,
+  systemPrompt?: string
 ): AsyncGenerator<string, GeneratedResponse, unknown> {
   try {
-    const contextText = retrievedDocuments
-      .map(doc => 
-        `**Chapter ${doc.chapter} - ${doc.section}**${doc.subsection ? ` - ${doc.subsection}` : ''}\n` +
-        `(Edition: ${doc.edition}${doc.page_number ? `, Page: ${doc.page_number}` : ''})\n\n` +
-        `${doc.content}\n\n---\n`
-      )
-      .join('\n');
-
-    const messages: MistralMessage[] = [
-      { role: 'system', content: NELSON_SYSTEM_PROMPT },
-      ...conversationHistory,
-      {
-        role: 'user',
-        content: `Context from Nelson Textbook of Pediatrics:\n\n${contextText}\n\nUser Query: ${userQuery}\n\nPlease provide a comprehensive, evidence-based response following the chain of thought process.`
-      }
-    ];
-
-    const response = await fetch(MISTRAL_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${MISTRAL_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'mistral-large-latest',
-        messages,
-        temperature: 0.1,
-        max_tokens: parseInt(import.meta.env.VITE_MAX_RESPONSE_TOKENS || '2048'),
-        top_p: 0.9,
-        stream: true
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Mistral API error: ${response.statusText}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body reader available');
-    }
-
-    const decoder = new TextDecoder();
+    const { messages, stats } = buildMedicalMessages(userQuery, retrievedDocuments, conversationHistory, systemPrompt);
     let fullContent = '';
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim().startsWith('data: '));
-
-        for (const line of lines) {
-          const data = line.replace('data: ', '').trim();
-          
-          if (data === '[DONE]') {
-            break;
-          }
-
-          try {
-            const parsed: MistralStreamResponse = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content;
-            
-            if (content) {
-              fullContent += content;
-              yield content;
-            }
-          } catch (parseError) {
-            // Skip malformed JSON chunks
-            continue;
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
+    for await (const content of provider.stream(messages, {
+      temperature: 0.1,
+      maxTokens: getMaxResponseTokens(),
+      topP: 0.9,
+      signal
+    })) {
+      fullContent += content;
+      yield content;
     }
 
     // Return final response with metadata
-    const citations = retrievedDocuments.map(doc => ({
-      chapter: doc.chapter,
-      section: doc.section,
-      page: doc.page_number?.toString(),
-      edition: doc.edition
-    }));
-
-    const confidence = determineConfidence(retrievedDocuments, fullContent);
-
     return {
       content: fullContent,
-      confidence,
-      citations
+      citations: buildCitations(fullContent, retrievedDocuments, stats.includedDocuments),
+      prompt: stats
     };
 
   } catch (error) {
-    console.error('Mistral streaming error:', error);
+    // Cancellation is not a failure; let the caller see the abort
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error(`LLM streaming error (${provider.name}):`, error);
     throw new Error('Failed to stream medical response');
   }
 }
 
-// Determine confidence level based on retrieved documents and response quality
-function determineConfidence(
+// Determine confidence level from how much of the answer the retrieved documents support
+export function determineConfidence(
   retrievedDocuments: NelsonDocument[],
-  responseContent: string
+  verification: VerificationResult
 ): 'high' | 'medium' | 'low' {
-  // High confidence: Multiple relevant documents with clear citations
-  if (retrievedDocuments.length >= 3 && responseContent.includes('Nelson Textbook')) {
+  if (retrievedDocuments.length === 0 || verification.claims.length === 0) {
+    return 'low';
+  }
+
+  // High confidence: Every statement (or nearly) is backed by several sources
+  if (retrievedDocuments.length >= 2 && verification.supportedRatio >= 0.9) {
     return 'high';
   }
   
-  // Medium confidence: Some relevant documents
-  if (retrievedDocuments.length >= 1 && responseContent.length > 200) {
+  // Medium confidence: Most statements are supported
+  if (verification.supportedRatio >= 0.6) {
     return 'medium';
   }
   
-  // Low confidence: Limited or unclear information
+  // Low confidence: Many statements could not be verified
   return 'low';
 }
 
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildBudgetedPrompt,
+  countTokens,
+  fitContext,
+  formatContextDocument,
+  truncateToTokens,
+  PromptBudget
+} from './promptBuilder';
+import type { NelsonDocument } from '@/lib/supabase';
+
+// Chunk with `words` words of content and the given relevance
+function doc(id: string, words: number, score: number): NelsonDocument {
+  return {
+    id,
+    chapter: 'Asthma',
+    section: 'Management',
+    content: Array.from({ length: words }, (_, index) => `word${index}`).join(' '),
+    edition: '22nd',
+    keywords: [],
+    embedding: [],
+    created_at: '',
+    updated_at: '',
+    score
+  };
+}
+
+const headerTokens = (document: NelsonDocument, marker: number) =>
+  countTokens(formatContextDocument(document, marker, ''));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('countTokens', () => {
+  it('splits long words, groups digits and counts punctuation', () => {
+    expect(countTokens('dose')).toBe(1);
+    expect(countTokens('dexamethasone')).toBe(4);
+    expect(countTokens('12345')).toBe(2);
+    expect(countTokens('0.6 mg/kg')).toBe(6);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns short text unchanged', () => {
+    expect(truncateToTokens('give oral dexamethasone', 10)).toBe('give oral dexamethasone');
+  });
+
+  it('cuts on a word boundary within the limit', () => {
+    const truncated = truncateToTokens(doc('a', 100, 1).content, 20);
+
+    expect(truncated.endsWith(' …')).toBe(true);
+    expect(countTokens(truncated)).toBeLessThanOrEqual(20);
+  });
+});
+
+describe('fitContext', () => {
+  it('keeps the most relevant chunks and returns them in rank order', () => {
+    const documents = [doc('low', 50, 0.2), doc('high', 50, 0.9), doc('mid', 50, 0.5)];
+    const blockTokens = countTokens(formatContextDocument(documents[0], 1));
+
+    const { blocks, dropped } = fitContext(documents, blockTokens * 2 + 1);
+
+    expect(blocks.map(block => block.marker)).toEqual([2, 3]);
+    expect(dropped).toEqual([1]);
+  });
+
+  it('truncates the best chunk when it alone is too long but a useful slice fits', () => {
+    const long = doc('long', 500, 0.9);
+    const budget = headerTokens(long, 1) + 100;
+
+    const { blocks, dropped } = fitContext([long], budget);
+
+    expect(dropped).toEqual([]);
+    expect(blocks).toHaveLength(1);
+    expect(countTokens(blocks[0].text)).toBeLessThanOrEqual(budget);
+  });
+
+  it('drops the best chunk when only its header would fit', () => {
+    const long = doc('long', 500, 0.9);
+
+    const { blocks, dropped } = fitContext([long], headerTokens(long, 1) + 10);
+
+    expect(blocks).toEqual([]);
+    expect(dropped).toEqual([1]);
+  });
+});
+
+describe('buildBudgetedPrompt', () => {
+  it('stays within the context window and reports what it dropped', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const budget: PromptBudget = { contextWindow: 1500, responseTokens: 500, historyShare: 0.25 };
+    const documents = Array.from({ length: 8 }, (_, index) => doc(`d${index}`, 120, 1 - index / 10));
+    const history = Array.from({ length: 6 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+      content: doc(`h${index}`, 80, 0).content
+    }));
+
+    const { messages, stats } = buildBudgetedPrompt(
+      'Answer from the Nelson context.',
+      context => `Context:\n${context}\n\nQuestion: how is croup treated?`,
+      documents,
+      history,
+      budget
+    );
+
+    expect(stats.totalTokens).toBeLessThanOrEqual(budget.contextWindow - budget.responseTokens);
+    expect(stats.droppedDocuments.length).toBeGreaterThan(0);
+    expect([...stats.includedDocuments, ...stats.droppedDocuments].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(stats.historyMessages).toBeLessThan(history.length);
+    expect(messages[0].role).toBe('system');
+    expect(messages[messages.length - 1].content).toContain('Question: how is croup treated?');
+  });
+});
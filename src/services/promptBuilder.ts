@@ -0,0 +1,218 @@
+import { NelsonDocument } from '@/lib/supabase';
+import { readEnv } from '@/lib/env';
+import { LLMMessage } from './llmProvider';
+
+// Assembles the chat messages for an answer within the model's context window. The system
+// prompt and question are always sent; the remaining budget is split between conversation
+// history (newest turns first, older ones truncated) and Nelson context (lowest-scoring
+// chunks dropped first).
+
+export interface PromptBudget {
+  // Tokens the model accepts in total (prompt + response)
+  contextWindow: number;
+  // Tokens reserved for the response (max_tokens)
+  responseTokens: number;
+  // Share of the prompt budget history may use before context gets the rest
+  historyShare: number;
+}
+
+export interface PromptStats {
+  totalTokens: number;
+  systemTokens: number;
+  historyTokens: number;
+  contextTokens: number;
+  historyMessages: number;
+  truncatedHistoryMessages: number;
+  // 1-based context numbers, matching the [n] labels in the prompt
+  includedDocuments: number[];
+  droppedDocuments: number[];
+}
+
+export interface BuiltPrompt {
+  messages: LLMMessage[];
+  stats: PromptStats;
+}
+
+// Per-message overhead of chat formatting (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Smallest useful slice of an older turn or a truncated chunk
+const MIN_TRUNCATED_TOKENS = 40;
+
+const DEFAULT_CONTEXT_WINDOW = 32000;
+const DEFAULT_HISTORY_SHARE = 0.25;
+
+// Approximate BPE token count: short words are one token, longer words split every ~4
+// letters, digits group in threes, and each punctuation mark is its own token
+export function countTokens(text: string): number {
+  let tokens = 0;
+
+  for (const piece of text.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g) || []) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.max(1, Math.ceil(piece.length / 4));
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+}
+
+export function countMessageTokens(message: LLMMessage): number {
+  return countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// Cut text to roughly maxTokens, ending on a word boundary
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const words = text.split(/\s+/);
+  let low = 0;
+  let high = words.length;
+
+  // Binary search for the longest word prefix that fits
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(words.slice(0, middle).join(' ')) + 1 <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return `${words.slice(0, low).join(' ')} …`;
+}
+
+// Budget from LLM_CONTEXT_TOKENS and the response token limit
+export function getPromptBudget(responseTokens: number): PromptBudget {
+  return {
+    contextWindow: parseInt(readEnv('LLM_CONTEXT_TOKENS') || String(DEFAULT_CONTEXT_WINDOW)),
+    responseTokens,
+    historyShare: DEFAULT_HISTORY_SHARE
+  };
+}
+
+// Format one retrieved chunk under its [n] context label
+export function formatContextDocument(doc: NelsonDocument, marker: number, content: string = doc.content): string {
+  return `[${marker}] **Chapter ${doc.chapter} - ${doc.section}**${doc.subsection ? ` - ${doc.subsection}` : ''}\n` +
+    `(Edition: ${doc.edition}${doc.page_number ? `, Page: ${doc.page_number}` : ''})\n\n` +
+    `${content}\n\n---\n`;
+}
+
+function relevanceOf(doc: NelsonDocument): number {
+  return doc.rerank_score ?? doc.score ?? doc.similarity ?? 0;
+}
+
+// Keep the newest turns whole and shorten the turn where the budget runs out
+function fitHistory(history: LLMMessage[], budget: number): { messages: LLMMessage[]; truncated: number } {
+  const kept: LLMMessage[] = [];
+  let remaining = budget;
+  let truncated = 0;
+
+  for (const message of [...history].reverse()) {
+    const tokens = countMessageTokens(message);
+
+    if (tokens <= remaining) {
+      kept.unshift(message);
+      remaining -= tokens;
+      continue;
+    }
+
+    if (remaining - MESSAGE_OVERHEAD_TOKENS >= MIN_TRUNCATED_TOKENS) {
+      kept.unshift({
+        role: message.role,
+        content: truncateToTokens(message.content, remaining - MESSAGE_OVERHEAD_TOKENS)
+      });
+      truncated++;
+    }
+    break;
+  }
+
+  return { messages: kept, truncated };
+}
+
+// Choose the chunks that fit, most relevant first, and return them in rank order with their labels
+export function fitContext(
+  documents: NelsonDocument[],
+  budget: number
+): { blocks: Array<{ marker: number; text: string }>; dropped: number[] } {
+  const byRelevance = documents
+    .map((doc, index) => ({ doc, marker: index + 1 }))
+    .sort((a, b) => relevanceOf(b.doc) - relevanceOf(a.doc));
+
+  const blocks: Array<{ marker: number; text: string }> = [];
+  const dropped: number[] = [];
+  let remaining = budget;
+
+  for (const { doc, marker } of byRelevance) {
+    const text = formatContextDocument(doc, marker);
+    const tokens = countTokens(text);
+
+    if (tokens <= remaining) {
+      blocks.push({ marker, text });
+      remaining -= tokens;
+      continue;
+    }
+
+    // Never send an empty context when the best chunk alone is too long, as long as a
+    // useful slice of its text fits after the header
+    const contentBudget = remaining - countTokens(formatContextDocument(doc, marker, ''));
+    if (blocks.length === 0 && contentBudget >= MIN_TRUNCATED_TOKENS) {
+      blocks.push({ marker, text: formatContextDocument(doc, marker, truncateToTokens(doc.content, contentBudget)) });
+      remaining = 0;
+    } else {
+      dropped.push(marker);
+    }
+  }
+
+  blocks.sort((a, b) => a.marker - b.marker);
+  return { blocks, dropped: dropped.sort((a, b) => a - b) };
+}
+
+// Build the messages for a grounded answer within the token budget
+export function buildBudgetedPrompt(
+  systemPrompt: string,
+  buildUserMessage: (contextText: string) => string,
+  documents: NelsonDocument[],
+  history: LLMMessage[],
+  budget: PromptBudget
+): BuiltPrompt {
+  const systemMessage: LLMMessage = { role: 'system', content: systemPrompt };
+  const systemTokens = countMessageTokens(systemMessage);
+  const questionTokens = countMessageTokens({ role: 'user', content: buildUserMessage('') });
+
+  const available = Math.max(0, budget.contextWindow - budget.responseTokens - systemTokens - questionTokens);
+
+  const fittedHistory = fitHistory(history, Math.floor(available * budget.historyShare));
+  const historyTokens = fittedHistory.messages.reduce((sum, message) => sum + countMessageTokens(message), 0);
+
+  // Context gets everything history did not use
+  const { blocks, dropped } = fitContext(documents, available - historyTokens);
+  const contextText = blocks.map(block => block.text).join('\n');
+  const contextTokens = countTokens(contextText);
+
+  if (dropped.length > 0) {
+    console.warn(`Prompt budget dropped context ${dropped.map(marker => `[${marker}]`).join(', ')}`);
+  }
+
+  return {
+    messages: [
+      systemMessage,
+      ...fittedHistory.messages,
+      { role: 'user', content: buildUserMessage(contextText) }
+    ],
+    stats: {
+      totalTokens: systemTokens + historyTokens + questionTokens + contextTokens,
+      systemTokens,
+      historyTokens,
+      contextTokens,
+      historyMessages: fittedHistory.messages.length,
+      truncatedHistoryMessages: fittedHistory.truncated,
+      includedDocuments: blocks.map(block => block.marker),
+      droppedDocuments: dropped
+    }
+  };
+}
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { condenseQuery, condenseQueryHeuristically, generateSubQueries, splitQueryHeuristically } from './queryRewriter';
+import type { LLMMessage, LLMProvider } from './llmProvider';
+
+// Provider whose completions always return the given reply
+function replyingProvider(reply: string): LLMProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+    complete: vi.fn(async () => reply),
+    stream: async function* () {}
+  };
+}
+
+const history: LLMMessage[] = [
+  { role: 'user', content: 'How is acute otitis media treated?' },
+  { role: 'assistant', content: 'First-line treatment is high-dose amoxicillin for most children.' }
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('condenseQuery', () => {
+  it('returns the query unchanged without history', async () => {
+    const provider = replyingProvider('anything');
+
+    expect(await condenseQuery('What is croup?', [], provider)).toBe('What is croup?');
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it('accepts a rewrite that keeps the follow-up terms and resolves the topic', async () => {
+    const provider = replyingProvider('Query: "Amoxicillin dosing for acute otitis media"');
+
+    expect(await condenseQuery('And the dose?', history, provider)).toBe('Amoxicillin dosing for acute otitis media');
+  });
+
+  it('rejects a rewrite that drops the follow-up terms', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replyingProvider('Treatment of acute otitis media with amoxicillin');
+
+    expect(await condenseQuery('And the dose?', history, provider))
+      .toBe('How is acute otitis media treated? And the dose?');
+  });
+
+  it('rejects a rewrite that is not a single line', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replyingProvider('Amoxicillin dose for otitis media\nAlso consider tympanocentesis');
+
+    expect(await condenseQuery('And the dose?', history, provider))
+      .toBe('How is acute otitis media treated? And the dose?');
+  });
+
+  it('accepts a rewrite of an acronym question that shares only the acronym', async () => {
+    const provider = replyingProvider('ITP immune thrombocytopenia definition');
+
+    expect(await condenseQuery('What is ITP?', history, provider)).toBe('ITP immune thrombocytopenia definition');
+  });
+
+  it('keeps a short standalone question when the rewrite is rejected', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replyingProvider('Amoxicillin for acute otitis media');
+
+    expect(await condenseQuery('What is croup?', history, provider)).toBe('What is croup?');
+  });
+
+  it('falls back to the heuristic when the provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replyingProvider('');
+    provider.complete = vi.fn(async () => { throw new Error('Provider unavailable'); });
+
+    expect(await condenseQuery('What about the duration?', history, provider))
+      .toBe('How is acute otitis media treated? What about the duration?');
+  });
+});
+
+describe('condenseQueryHeuristically', () => {
+  it('attaches a short follow-up to the previous question', () => {
+    expect(condenseQueryHeuristically('And in infants?', history)).toBe('How is acute otitis media treated? And in infants?');
+  });
+
+  it('leaves a short question on a new topic alone', () => {
+    expect(condenseQueryHeuristically('What is croup?', history)).toBe('What is croup?');
+  });
+
+  it('leaves a long standalone question alone', () => {
+    const query = 'What are the diagnostic criteria for Kawasaki disease in a febrile child older than one year';
+
+    expect(condenseQueryHeuristically(query, history)).toBe(query);
+  });
+});
+
+describe('splitQueryHeuristically', () => {
+  it('splits at question marks up to the limit', () => {
+    expect(splitQueryHeuristically('What causes croup? How is it treated? When to admit?', 2))
+      .toEqual(['What causes croup?', 'How is it treated?']);
+  });
+
+  it('keeps a single question whole', () => {
+    expect(splitQueryHeuristically('What causes croup?', 3)).toEqual(['What causes croup?']);
+  });
+});
+
+describe('generateSubQueries', () => {
+  it('keeps numbered lines that stay on topic', async () => {
+    const provider = replyingProvider('1. Croup causes\n2. Croup dexamethasone dose\n3. Weather tomorrow');
+
+    expect(await generateSubQueries('What causes croup and what is the dexamethasone dose?', 3, provider))
+      .toEqual(['Croup causes', 'Croup dexamethasone dose']);
+  });
+});
@@ -0,0 +1,162 @@
+import { LLMMessage, LLMProvider } from './llmProvider';
+
+// Turns follow-up questions into standalone search queries and splits complex questions
+// into sub-queries, so retrieval sees what the user means rather than only what they typed.
+
+// Recent turns shown to the rewriter; assistant answers are clipped to keep the prompt small
+const MAX_REWRITE_HISTORY = 4;
+const MAX_HISTORY_CHARS = 500;
+const MAX_QUERY_CHARS = 300;
+
+const FOLLOW_UP_PATTERN = /^(and|or|what about|how about|what if|also|then|same for|in)\b|\b(it|its|this|that|these|those|they|them|the same)\b/i;
+
+const STOPWORDS = new Set([
+  'what', 'which', 'when', 'where', 'about', 'with', 'from', 'that', 'this', 'these', 'those',
+  'there', 'their', 'they', 'them', 'does', 'have', 'should', 'would', 'could', 'into', 'than'
+]);
+
+// Short all-caps terms are acronyms (ITP, RSV, UTI) and carry the topic despite their length
+const ACRONYM = /^[A-Z][A-Z0-9]{1,3}$/;
+
+function contentWords(text: string): Set<string> {
+  return new Set((text.match(/[A-Za-z0-9]+/g) || [])
+    .filter(word => ACRONYM.test(word) || (word.length > 3 && !STOPWORDS.has(word.toLowerCase())))
+    .map(word => word.toLowerCase()));
+}
+
+// Fold simple inflections together so "dose" matches "dosing" and "infections" matches "infection"
+function stemWord(word: string): string {
+  return word.replace(/(ing|ed|es|s|e)$/, '');
+}
+
+function lastUserQuery(history: LLMMessage[]): string | undefined {
+  return [...history].reverse().find(message => message.role === 'user')?.content;
+}
+
+// Accept a rewrite only if it is a single short line that stays on the conversation's topic
+function isUsableRewrite(rewrite: string, sourceText: string): boolean {
+  if (!rewrite || rewrite.includes('\n') || rewrite.length > MAX_QUERY_CHARS) {
+    return false;
+  }
+
+  const sourceWords = contentWords(sourceText);
+  return [...contentWords(rewrite)].some(word => sourceWords.has(word));
+}
+
+// A condensed follow-up must still contain the follow-up's own terms; only the context it
+// leaves implicit (the topic from earlier turns) may be added
+function keepsQueryTerms(rewrite: string, query: string): boolean {
+  const rewriteStems = new Set([...contentWords(rewrite)].map(stemWord));
+  return [...contentWords(query)].every(word => rewriteStems.has(stemWord(word)));
+}
+
+function cleanRewrite(reply: string): string {
+  return reply
+    .trim()
+    .replace(/^(standalone )?(search )?query:\s*/i, '')
+    .replace(/^["'`]+|["'`]+$/g, '')
+    .trim();
+}
+
+// Without an LLM, attach an obvious follow-up (a leading "and"/"what about" or a pronoun)
+// to the previous question; short questions on a new topic are left alone
+export function condenseQueryHeuristically(query: string, history: LLMMessage[]): string {
+  const previousQuery = lastUserQuery(history);
+
+  return previousQuery && FOLLOW_UP_PATTERN.test(query) ? `${previousQuery} ${query}` : query;
+}
+
+// Rewrite a follow-up question as a standalone query for searching the Nelson Textbook
+export async function condenseQuery(
+  query: string,
+  history: LLMMessage[],
+  provider?: LLMProvider,
+  signal?: AbortSignal
+): Promise<string> {
+  const recentHistory = history.slice(-MAX_REWRITE_HISTORY);
+  if (recentHistory.length === 0) {
+    return query;
+  }
+
+  if (!provider) {
+    return condenseQueryHeuristically(query, recentHistory);
+  }
+
+  const transcript = recentHistory
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.slice(0, MAX_HISTORY_CHARS)}`)
+    .join('\n');
+
+  try {
+    const reply = await provider.complete([
+      {
+        role: 'system',
+        content: 'You rewrite follow-up questions from a pediatric medical conversation into standalone search queries for the Nelson Textbook of Pediatrics. Keep the medical terms, resolve pronouns and implied topics, and reply with the query only.'
+      },
+      {
+        role: 'user',
+        content: `Conversation:\n${transcript}\n\nFollow-up question: ${query}\n\nStandalone search query:`
+      }
+    ], { temperature: 0, maxTokens: 100, signal });
+
+    const rewrite = cleanRewrite(reply);
+    if (isUsableRewrite(rewrite, `${transcript} ${query}`) && keepsQueryTerms(rewrite, query)) {
+      return rewrite;
+    }
+
+    console.warn('Query rewrite was unusable; falling back to heuristic condensation');
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Query rewrite failed; falling back to heuristic condensation:', error);
+  }
+
+  return condenseQueryHeuristically(query, recentHistory);
+}
+
+// Without an LLM, split a multi-question query at its question marks
+export function splitQueryHeuristically(query: string, maxQueries: number): string[] {
+  const questions = query
+    .split(/(?<=\?)\s+/)
+    .map(question => question.trim())
+    .filter(Boolean);
+
+  return questions.length > 1 ? questions.slice(0, maxQueries) : [query];
+}
+
+// Break a complex question into focused sub-queries that can be retrieved separately
+export async function generateSubQueries(
+  query: string,
+  maxQueries: number,
+  provider?: LLMProvider,
+  signal?: AbortSignal
+): Promise<string[]> {
+  if (!provider) {
+    return splitQueryHeuristically(query, maxQueries);
+  }
+
+  try {
+    const reply = await provider.complete([
+      {
+        role: 'system',
+        content: `You split complex pediatric medical questions into at most ${maxQueries} focused search queries for the Nelson Textbook of Pediatrics. Reply with one query per line and nothing else.`
+      },
+      { role: 'user', content: query }
+    ], { temperature: 0, maxTokens: 200, signal });
+
+    const subQueries = reply
+      .split('\n')
+      .map(line => cleanRewrite(line.replace(/^\s*(\d+[.)]|[-*])\s*/, '')))
+      .filter(line => isUsableRewrite(line, query))
+      .slice(0, maxQueries);
+
+    if (subQueries.length > 0) {
+      return subQueries;
+    }
+
+    console.warn('Sub-query generation was unusable; falling back to question splitting');
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Sub-query generation failed; falling back to question splitting:', error);
+  }
+
+  return splitQueryHeuristically(query, maxQueries);
+}
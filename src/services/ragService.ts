@@ -1,38 +1,450 @@
-import { generateEmbedding } from './embeddingService';
-import { generateMedicalResponse, streamMedicalResponse, validateMedicalQuery, MistralMessage } from './mistralService';
-import { searchSimilarDocuments, saveChatMessage, NelsonDocument, testDatabaseConnection, searchNelsonChunks } from '@/lib/supabase';
+import { assertIndexEmbeddingModel, generateEmbedding, getEmbeddingModel } from './embeddingService';
+import {
+  generateMedicalResponse,
+  streamMedicalResponse,
+  validateMedicalQuery,
+  determineConfidence,
+  MistralMessage,
+  GeneratedResponse
+} from './mistralService';
+import { buildCitations, ResponseCitation } from './citations';
+import { getLLMProvider, LLMProvider } from './llmProvider';
+import { verifyAnswer, VerificationResult } from './verificationService';
+import { condenseQuery, generateSubQueries } from './queryRewriter';
+import { getReranker, rerankDocuments, Reranker } from './rerankService';
+import { expandWithAdjacentChunks } from './contextExpansion';
+import type { PromptStats } from './promptBuilder';
+import {
+  resolveSpecialtyChapters,
+  retrieveFromChapters,
+  boostSpecialtyDocuments,
+  SpecialtyRouting
+} from './specialtyRouting';
+import { NelsonDocument, testDatabaseConnection } from '@/lib/supabase';
+import { supabaseRetrievalBackend, RetrievalBackend } from './retrievalBackend';
+import { buildAnswerCacheKey, cacheAnswer, getCachedAnswer, isAnswerCacheEnabled } from './answerCache';
 
 export interface RAGResponse {
   content: string;
   confidence: 'high' | 'medium' | 'low';
-  citations: Array<{
-    chapter: string;
-    section: string;
-    page?: string;
-    edition: string;
-  }>;
+  citations: ResponseCitation[];
   retrievedDocuments: NelsonDocument[];
   processingTime: number;
+  // Set when generation was cancelled and content holds only the partial answer
+  stopped?: boolean;
+  // Claim-level faithfulness check of the answer against retrievedDocuments
+  verification?: VerificationResult;
+  // Served from the answer cache instead of being generated for this request
+  cached?: boolean;
+  // Pipeline details persisted alongside the assistant message
+  metadata?: Record<string, any>;
 }
 
+// Pipeline stages reported through status events
+export type RAGStage = 'validating' | 'connecting' | 'retrieving' | 'generating' | 'verifying';
+
+// Events yielded by streamNelsonQuery. Only token events belong to the answer text.
+export type RAGStreamEvent =
+  | { type: 'status'; stage: RAGStage; message: string }
+  | { type: 'retrieval'; documents: NelsonDocument[] }
+  | { type: 'token'; content: string }
+  | { type: 'citation'; citation: ResponseCitation }
+  | { type: 'done'; response: RAGResponse }
+  | { type: 'error'; message: string };
+
+// How documents are retrieved from the Nelson Textbook chunks
+export type RetrievalStrategy = 'vector' | 'text' | 'hybrid';
+
 export interface RAGConfig {
   maxDocuments: number;
   similarityThreshold: number;
   includeMetadata: boolean;
   temperature: number;
+  retrievalStrategy: RetrievalStrategy;
+  // Blend weights for hybrid retrieval (vector similarity vs. text rank)
+  vectorWeight: number;
+  textWeight: number;
+  // Rewrite follow-ups into standalone queries and split complex questions before retrieval
+  rewriteQueries: boolean;
+  maxSubQueries: number;
+  // Candidates fetched for the reranker before it keeps the top maxDocuments
+  rerankCandidates: number;
+  // Overrides the RERANKER configuration; null keeps the retrieval order
+  reranker?: Reranker | null;
+  // Use the document count and threshold suggested by analyzeQueryComplexity unless set explicitly
+  adaptToComplexity: boolean;
+  // Favour (boost) or restrict retrieval to (filter) chapters of the detected specialties
+  specialtyRouting: SpecialtyRouting;
+  // Neighbouring chunks (chunk_index ± contextWindow) stitched onto each result; 0 disables
+  contextWindow: number;
+  // Ask the LLM to judge claims that lexical overlap alone cannot confirm
+  verifyWithLLM: boolean;
+  // Overrides the Supabase chunk store (e.g. an in-memory fixture corpus for evaluation)
+  retrievalBackend?: RetrievalBackend;
+  // Overrides the LLM_PROVIDER configuration (e.g. a mock provider for evaluation)
+  llmProvider?: LLMProvider;
+  // Overrides NELSON_SYSTEM_PROMPT (e.g. to compare prompt versions in evaluation)
+  systemPrompt?: string;
+  // Reuse answers for the same standalone query and retrieved chunks; defaults to ANSWER_CACHE
+  cacheAnswers?: boolean;
 }
 
 const DEFAULT_CONFIG: RAGConfig = {
   maxDocuments: 5,
   similarityThreshold: 0.7,
   includeMetadata: true,
-  temperature: 0.1
+  temperature: 0.1,
+  retrievalStrategy: 'hybrid',
+  vectorWeight: 0.7,
+  textWeight: 0.3,
+  rewriteQueries: true,
+  maxSubQueries: 3,
+  rerankCandidates: 30,
+  adaptToComplexity: true,
+  specialtyRouting: 'boost',
+  contextWindow: 1,
+  verifyWithLLM: true
 };
 
+// Retrieve relevant Nelson Textbook documents using the configured strategy
+export async function retrieveDocuments(
+  query: string,
+  config: Partial<RAGConfig> = {}
+): Promise<NelsonDocument[]> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const { retrievalStrategy, similarityThreshold, maxDocuments, vectorWeight, textWeight } = finalConfig;
+  const backend = finalConfig.retrievalBackend ?? supabaseRetrievalBackend;
+
+  if (retrievalStrategy === 'text') {
+    return backend.searchText(query, maxDocuments);
+  }
+
+  const { embedding: queryEmbedding } = await generateEmbedding(query, undefined, await backend.indexEmbeddingModel());
+  console.log(`Generated embedding with ${queryEmbedding.length} dimensions`);
+
+  if (retrievalStrategy === 'vector') {
+    const vectorResults = await backend.searchVector(queryEmbedding, similarityThreshold, maxDocuments);
+    if (vectorResults.length > 0) {
+      return vectorResults;
+    }
+
+    // Fallback: terms like drug names often embed poorly but match on text
+    console.log('No vector matches, attempting fallback text search...');
+    return backend.searchText(query, maxDocuments);
+  }
+
+  try {
+    return await backend.searchHybrid(
+      query,
+      queryEmbedding,
+      similarityThreshold,
+      maxDocuments,
+      vectorWeight,
+      textWeight
+    );
+  } catch (error) {
+    // Fall back to fusing separate searches if the hybrid RPC is unavailable
+    console.warn('Hybrid search failed, fusing vector and text results instead:', error);
+    const [vectorResults, textResults] = await Promise.all([
+      backend.searchVector(queryEmbedding, similarityThreshold, maxDocuments * 2).catch(() => []),
+      backend.searchText(query, maxDocuments * 2).catch(() => [])
+    ]);
+
+    return fuseRetrievalResults(
+      [
+        { documents: vectorResults, weight: vectorWeight, scoreKey: 'similarity' },
+        { documents: textResults, weight: textWeight, scoreKey: 'text_rank' }
+      ],
+      maxDocuments
+    );
+  }
+}
+
+// Work out which search queries to run for a question, given the conversation so far
+export async function planSearchQueries(
+  query: string,
+  conversationHistory: MistralMessage[],
+  config: Partial<RAGConfig> = {},
+  provider?: LLMProvider,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  if (!finalConfig.rewriteQueries) {
+    return [query];
+  }
+
+  const standaloneQuery = await condenseQuery(query, conversationHistory, provider, signal);
+  const searchQueries = [standaloneQuery];
+
+  if (analyzeQueryComplexity(standaloneQuery).complexity === 'complex') {
+    const subQueries = await generateSubQueries(standaloneQuery, finalConfig.maxSubQueries, provider, signal);
+    searchQueries.push(...subQueries.filter(subQuery => subQuery !== standaloneQuery));
+  }
+
+  return searchQueries;
+}
+
+// Retrieve documents for each search query and merge them into one ranked list
+export async function retrieveForQueries(
+  searchQueries: string[],
+  config: Partial<RAGConfig> = {}
+): Promise<NelsonDocument[]> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  if (searchQueries.length === 1) {
+    return retrieveDocuments(searchQueries[0], finalConfig);
+  }
+
+  const resultSets = await Promise.all(
+    searchQueries.map(searchQuery =>
+      retrieveDocuments(searchQuery, finalConfig).catch(error => {
+        console.warn(`Retrieval failed for sub-query "${searchQuery}":`, error);
+        return [];
+      })
+    )
+  );
+
+  // Equal weights keep merged scores on the same 0-1 scale; chunks found by several queries rank higher
+  return fuseRetrievalResults(
+    resultSets.map(documents => ({ documents, weight: 1 / searchQueries.length, scoreKey: 'score' as const })),
+    finalConfig.maxDocuments
+  );
+}
+
+// How the documents for a response were found, for storage with the chat message
+export interface RetrievalTrace {
+  searchQueries: string[];
+  complexity: 'simple' | 'moderate' | 'complex';
+  maxDocuments: number;
+  similarityThreshold: number;
+  specialties: string[];
+  specialtyChapters: string[];
+  specialtyRouting: SpecialtyRouting;
+  candidateCount: number;
+  reranker?: string;
+  // The query could not be embedded, so only keyword (text) search was used
+  embeddingUnavailable: boolean;
+}
+
+// Merge config over the defaults, letting query complexity choose settings the caller left unset
+export function adaptConfigToQuery(
+  query: string,
+  config: Partial<RAGConfig> = {}
+): { finalConfig: RAGConfig; complexity: RetrievalTrace['complexity'] } {
+  const { complexity, suggestedDocumentCount, suggestedThreshold } = analyzeQueryComplexity(query);
+  const adapt = config.adaptToComplexity ?? DEFAULT_CONFIG.adaptToComplexity;
+
+  return {
+    finalConfig: {
+      ...DEFAULT_CONFIG,
+      ...(adapt ? { maxDocuments: suggestedDocumentCount, similarityThreshold: suggestedThreshold } : {}),
+      ...config
+    },
+    complexity
+  };
+}
+
+// Embed the query ahead of retrieval (the vector is cached for the searches that follow).
+// An index/model mismatch still fails; an unreachable embedding backend returns false.
+async function canEmbedQuery(query: string, backend: RetrievalBackend): Promise<boolean> {
+  const indexModel = await backend.indexEmbeddingModel();
+  assertIndexEmbeddingModel(indexModel);
+
+  try {
+    await generateEmbedding(query, undefined, indexModel);
+    return true;
+  } catch (error) {
+    console.warn('Query embedding unavailable, falling back to text search:', error);
+    return false;
+  }
+}
+
+// Over-fetch candidates for the search queries (steered by specialty), then rerank them
+// down to maxDocuments
+export async function retrieveAndRerank(
+  searchQueries: string[],
+  config: Partial<RAGConfig> = {},
+  provider?: LLMProvider,
+  signal?: AbortSignal
+): Promise<{ documents: NelsonDocument[]; trace: RetrievalTrace }> {
+  const [primaryQuery] = searchQueries;
+  const { finalConfig: adaptedConfig, complexity } = adaptConfigToQuery(primaryQuery, config);
+  const backend = adaptedConfig.retrievalBackend ?? supabaseRetrievalBackend;
+
+  // Without a query embedding only text search is meaningful; vector search is skipped entirely
+  const embeddingUnavailable = adaptedConfig.retrievalStrategy !== 'text' && !await canEmbedQuery(primaryQuery, backend);
+  const finalConfig: RAGConfig = embeddingUnavailable ? { ...adaptedConfig, retrievalStrategy: 'text' } : adaptedConfig;
+  const { maxDocuments, similarityThreshold, specialtyRouting } = finalConfig;
+  const searchChapters = finalConfig.retrievalStrategy !== 'text';
+
+  const reranker = finalConfig.reranker !== undefined ? finalConfig.reranker : getReranker(provider);
+  const candidateLimit = reranker ? Math.max(finalConfig.rerankCandidates, maxDocuments) : maxDocuments;
+
+  const specialties = detectMedicalSpecialty(searchQueries.join(' '));
+  const specialtyChapters = specialtyRouting !== 'off' && specialties.length > 0
+    ? await resolveSpecialtyChapters(specialties, backend).catch(error => {
+        console.warn('Could not map specialties to chapters:', error);
+        return [];
+      })
+    : [];
+
+  let candidates: NelsonDocument[] = [];
+
+  if (specialtyRouting === 'filter' && specialtyChapters.length > 0 && searchChapters) {
+    candidates = await retrieveFromChapters(primaryQuery, specialtyChapters, similarityThreshold, candidateLimit, backend);
+    if (candidates.length === 0) {
+      console.log('No matches in specialty chapters, searching all chapters...');
+    }
+  }
+
+  if (candidates.length === 0) {
+    candidates = await retrieveForQueries(searchQueries, { ...finalConfig, maxDocuments: candidateLimit });
+
+    if (specialtyRouting === 'boost' && specialtyChapters.length > 0 && searchChapters) {
+      const chapterDocuments = await retrieveFromChapters(primaryQuery, specialtyChapters, similarityThreshold, candidateLimit, backend);
+      candidates = boostSpecialtyDocuments(candidates, chapterDocuments, specialtyChapters).slice(0, candidateLimit);
+    }
+  }
+
+  const documents = reranker
+    ? await rerankDocuments(primaryQuery, candidates, reranker, maxDocuments, signal)
+    : candidates.slice(0, maxDocuments);
+
+  return {
+    documents,
+    trace: {
+      searchQueries,
+      complexity,
+      maxDocuments,
+      similarityThreshold,
+      specialties,
+      specialtyChapters,
+      specialtyRouting,
+      candidateCount: candidates.length,
+      reranker: reranker?.name,
+      embeddingUnavailable
+    }
+  };
+}
+
+// Merge several ranked result lists into one, blending their scores by weight
+export function fuseRetrievalResults(
+  resultSets: Array<{
+    documents: NelsonDocument[];
+    weight: number;
+    scoreKey: 'similarity' | 'text_rank' | 'score';
+  }>,
+  limit: number
+): NelsonDocument[] {
+  const fused = new Map<string, NelsonDocument>();
+
+  for (const { documents, weight, scoreKey } of resultSets) {
+    for (const doc of documents) {
+      const contribution = (doc[scoreKey] ?? 0) * weight;
+      const existing = fused.get(doc.id);
+
+      if (existing) {
+        fused.set(doc.id, {
+          ...existing,
+          similarity: existing.similarity ?? doc.similarity,
+          text_rank: existing.text_rank ?? doc.text_rank,
+          score: (existing.score ?? 0) + contribution
+        });
+      } else {
+        fused.set(doc.id, { ...doc, score: contribution });
+      }
+    }
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, limit);
+}
+
+// Check a generated answer against its sources
+async function verifyGeneratedAnswer(
+  content: string,
+  retrievedDocuments: NelsonDocument[],
+  config: RAGConfig,
+  provider: LLMProvider,
+  signal?: AbortSignal
+): Promise<VerificationResult> {
+  const verification = await verifyAnswer(
+    content,
+    retrievedDocuments,
+    config.verifyWithLLM ? provider : undefined,
+    signal
+  );
+
+  if (verification.unsupportedClaims.length > 0) {
+    console.warn(`${verification.unsupportedClaims.length} of ${verification.claims.length} claims could not be verified`);
+  }
+
+  return verification;
+}
+
+// Keyword-only retrieval misses paraphrased passages, so such answers are never graded above low
+function gradeConfidence(
+  retrievedDocuments: NelsonDocument[],
+  verification: VerificationResult,
+  retrievalTrace: RetrievalTrace
+): RAGResponse['confidence'] {
+  return retrievalTrace.embeddingUnavailable ? 'low' : determineConfidence(retrievedDocuments, verification);
+}
+
+// Describe how a response was produced, for storage with the chat message
+function buildResponseMetadata(
+  retrievedDocuments: NelsonDocument[],
+  config: RAGConfig,
+  provider: LLMProvider,
+  retrievalTrace: RetrievalTrace,
+  prompt: PromptStats,
+  verification: VerificationResult
+): Record<string, any> {
+  return {
+    retrievedDocumentsCount: retrievedDocuments.length,
+    // Chunk ids in prompt order, for feedback review and answer regression checks
+    retrievedDocumentIds: retrievedDocuments.map(document => document.id),
+    retrievalStrategy: retrievalTrace.embeddingUnavailable ? 'text' : config.retrievalStrategy,
+    ...retrievalTrace,
+    llmProvider: provider.name,
+    model: provider.model,
+    embeddingModel: getEmbeddingModel(),
+    prompt: {
+      totalTokens: prompt.totalTokens,
+      historyMessages: prompt.historyMessages,
+      truncatedHistoryMessages: prompt.truncatedHistoryMessages,
+      droppedDocuments: prompt.droppedDocuments
+    },
+    verification: {
+      method: verification.method,
+      totalClaims: verification.claims.length,
+      supportedRatio: verification.supportedRatio,
+      unsupportedClaims: verification.unsupportedClaims
+    }
+  };
+}
+
+// A healthy connection check is trusted for this long; failures are always re-checked
+const DB_HEALTH_TTL_MS = 60_000;
+let databaseHealthyUntil = 0;
+
+// Fail early with a clear message when the Nelson chunks cannot be reached
+async function ensureDatabaseConnection(): Promise<void> {
+  if (Date.now() < databaseHealthyUntil) {
+    return;
+  }
+
+  const dbTest = await testDatabaseConnection();
+  if (!dbTest.connected) {
+    throw new Error('Database connection failed. Please check your Supabase configuration.');
+  }
+  databaseHealthyUntil = Date.now() + DB_HEALTH_TTL_MS;
+  console.log(`Connected to database. Found ${dbTest.nelsonChunksCount} Nelson textbook chunks.`);
+}
+
 // Main RAG pipeline for Nelson-GPT
 export async function processNelsonQuery(
   query: string,
-  sessionId?: string,
   conversationHistory: MistralMessage[] = [],
   config: Partial<RAGConfig> = {}
 ): Promise<RAGResponse> {
@@ -46,65 +458,23 @@ export async function processNelsonQuery(
       throw new Error(validation.reason);
     }
 
-    // Step 2: Test database connection first
-    console.log('Testing database connection...');
-    const dbTest = await testDatabaseConnection();
-    if (!dbTest.connected) {
-      throw new Error('Database connection failed. Please check your Supabase configuration.');
-    }
-    console.log(`Connected to database. Found ${dbTest.nelsonChunksCount} Nelson textbook chunks.`);
+    const provider = finalConfig.llmProvider ?? getLLMProvider();
 
-    // Step 3: Generate embedding for the user query
-    console.log('Generating query embedding...');
-    const { embedding: queryEmbedding } = await generateEmbedding(query);
-    console.log(`Generated embedding with ${queryEmbedding.length} dimensions`);
+    // Step 2: Test database connection first (not needed when chunks come from another backend)
+    if (!finalConfig.retrievalBackend) {
+      console.log('Testing database connection...');
+      await ensureDatabaseConnection();
+    }
 
-    // Step 4: Retrieve similar documents from Nelson Textbook
-    console.log('Searching similar documents...');
-    const retrievedDocuments = await searchSimilarDocuments(
-      queryEmbedding,
-      finalConfig.similarityThreshold,
-      finalConfig.maxDocuments
-    );
+    // Step 3: Retrieve relevant documents from Nelson Textbook
+    const searchQueries = await planSearchQueries(query, conversationHistory, finalConfig, provider);
+    console.log(`Searching documents using ${finalConfig.retrievalStrategy} retrieval for:`, searchQueries);
+    const { documents, trace } = await retrieveAndRerank(searchQueries, config, provider);
+    const retrievedDocuments = await expandWithAdjacentChunks(documents, finalConfig.contextWindow, finalConfig.retrievalBackend);
 
     if (retrievedDocuments.length === 0) {
       console.warn('No relevant documents found for query:', query);
       
-      // Fallback: try text search
-      console.log('Attempting fallback text search...');
-      try {
-        const textSearchResults = await searchNelsonChunks(query, 3);
-        if (textSearchResults.length > 0) {
-          console.log(`Found ${textSearchResults.length} results via text search`);
-          // Convert to NelsonDocument format
-          const fallbackDocs: NelsonDocument[] = textSearchResults.map(chunk => ({
-            id: chunk.id,
-            chapter: chunk.chapter_title,
-            section: chunk.section_title || 'General',
-            content: chunk.content,
-            page_number: chunk.page_number || undefined,
-            edition: '22nd Edition',
-            keywords: [],
-            embedding: [],
-            created_at: chunk.created_at,
-            updated_at: chunk.created_at,
-          }));
-          
-          // Continue with text search results
-          const fallbackResponse = await generateMedicalResponse(query, fallbackDocs, conversationHistory);
-          
-          return {
-            content: fallbackResponse.content + '\n\n*Note: This response is based on text search due to limited vector similarity.*',
-            confidence: 'medium',
-            citations: fallbackResponse.citations,
-            retrievedDocuments: fallbackDocs,
-            processingTime: Date.now() - startTime
-          };
-        }
-      } catch (textSearchError) {
-        console.error('Text search fallback failed:', textSearchError);
-      }
-      
       return {
         content: `I apologize, but I couldn't find relevant information in the Nelson Textbook of Pediatrics for your query: "${query}". 
 
@@ -123,55 +493,41 @@ Please try rephrasing your question with more specific pediatric medical terms,
 
     console.log(`Found ${retrievedDocuments.length} relevant documents`);
 
-    // Step 4: Generate response using Mistral API
-    console.log('Generating medical response...');
-    const response = await generateMedicalResponse(query, retrievedDocuments, conversationHistory);
-
-    // Step 5: Save to chat history if session provided
-    if (sessionId) {
-      try {
-        await saveChatMessage(sessionId, 'user', query);
-        
-        // Convert response citations to database citation format
-        const dbCitations = response.citations.map((citation, index) => ({
-          document_id: retrievedDocuments[index]?.id || `doc_${index}`,
-          chapter: citation.chapter,
-          section: citation.section,
-          page_number: citation.page ? parseInt(citation.page) : undefined,
-          edition: citation.edition,
-          relevance_score: 0.8 // Default relevance score
-        }));
-        
-        await saveChatMessage(
-          sessionId,
-          'assistant',
-          response.content,
-          dbCitations,
-          response.confidence,
-          {
-            retrievedDocumentsCount: retrievedDocuments.length,
-            processingTime: Date.now() - startTime,
-            model: 'mistral-large-latest',
-            embeddingModel: 'sentence-transformers/all-MiniLM-L6-v2'
-          }
-        );
-      } catch (saveError) {
-        console.error('Failed to save chat messages:', saveError);
-        // Continue without failing the entire request
-      }
+    const cacheKey = (finalConfig.cacheAnswers ?? isAnswerCacheEnabled())
+      ? buildAnswerCacheKey(searchQueries[0], retrievedDocuments, provider, finalConfig.systemPrompt)
+      : null;
+    const cachedResponse = cacheKey ? getCachedAnswer(cacheKey, retrievedDocuments, startTime) : null;
+    if (cachedResponse) {
+      console.log('Returning cached answer');
+      return cachedResponse;
     }
 
+    // Step 4: Generate response using the configured LLM provider
+    console.log(`Generating medical response with ${provider.name} (${provider.model})...`);
+    const response = await generateMedicalResponse(query, retrievedDocuments, conversationHistory, provider, finalConfig.systemPrompt);
+
+    // Step 5: Verify the answer against the retrieved documents
+    console.log('Verifying response against retrieved documents...');
+    const verification = await verifyGeneratedAnswer(response.content, retrievedDocuments, finalConfig, provider);
+
     const processingTime = Date.now() - startTime;
     console.log(`RAG pipeline completed in ${processingTime}ms`);
 
-    return {
+    const ragResponse: RAGResponse = {
       content: response.content,
-      confidence: response.confidence,
+      confidence: gradeConfidence(retrievedDocuments, verification, trace),
       citations: response.citations,
       retrievedDocuments,
-      processingTime
+      processingTime,
+      verification,
+      metadata: buildResponseMetadata(retrievedDocuments, finalConfig, provider, trace, response.prompt, verification)
     };
 
+    if (cacheKey) {
+      cacheAnswer(cacheKey, ragResponse);
+    }
+    return ragResponse;
+
   } catch (error) {
     console.error('RAG pipeline error:', error);
     const processingTime = Date.now() - startTime;
@@ -196,126 +552,159 @@ If the problem persists, please contact technical support.`,
   }
 }
 
-// Streaming version of the RAG pipeline
+// Streaming version of the RAG pipeline. Always finishes with a done event.
 export async function* streamNelsonQuery(
   query: string,
-  sessionId?: string,
   conversationHistory: MistralMessage[] = [],
-  config: Partial<RAGConfig> = {}
-): AsyncGenerator<string, RAGResponse, unknown> {
+  config: Partial<RAGConfig> = {},
+  signal?: AbortSignal
+): AsyncGenerator<RAGStreamEvent, RAGResponse, unknown> {
   const startTime = Date.now();
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
   let fullContent = '';
+  let retrievedDocuments: NelsonDocument[] = [];
 
   try {
     // Step 1: Validate the medical query
+    yield { type: 'status', stage: 'validating', message: 'Checking your medical query' };
     const validation = validateMedicalQuery(query);
     if (!validation.isValid) {
       throw new Error(validation.reason);
     }
 
+    const provider = finalConfig.llmProvider ?? getLLMProvider();
+
     // Step 2: Test database connection
-    yield '🔍 Connecting to Nelson Textbook database...';
-    const dbTest = await testDatabaseConnection();
-    if (!dbTest.connected) {
-      throw new Error('Database connection failed. Please check your Supabase configuration.');
+    if (!finalConfig.retrievalBackend) {
+      yield { type: 'status', stage: 'connecting', message: 'Connecting to Nelson Textbook database' };
+      await ensureDatabaseConnection();
+      signal?.throwIfAborted();
     }
-    console.log(`Connected to database. Found ${dbTest.nelsonChunksCount} Nelson textbook chunks.`);
 
-    // Step 3: Generate embedding for the user query
-    yield '🧠 Analyzing your medical query...';
-    const { embedding: queryEmbedding } = await generateEmbedding(query);
+    // Step 3: Retrieve relevant documents from Nelson Textbook
+    yield { type: 'status', stage: 'retrieving', message: 'Searching Nelson Textbook of Pediatrics' };
+    const searchQueries = await planSearchQueries(query, conversationHistory, finalConfig, provider, signal);
+    if (searchQueries.length > 1 || searchQueries[0] !== query) {
+      yield {
+        type: 'status',
+        stage: 'retrieving',
+        message: `Searching for: ${searchQueries.map(searchQuery => `"${searchQuery}"`).join(', ')}`
+      };
+    }
+    const { documents, trace } = await retrieveAndRerank(searchQueries, config, provider, signal);
+    if (trace.embeddingUnavailable) {
+      yield {
+        type: 'status',
+        stage: 'retrieving',
+        message: 'Semantic search is unavailable; searching by keywords only'
+      };
+    }
+    if (trace.specialtyChapters.length > 0 && !trace.embeddingUnavailable) {
+      yield {
+        type: 'status',
+        stage: 'retrieving',
+        message: `Focusing on ${trace.specialties.map(specialty => specialty.replace(/_/g, ' ')).join(', ')} chapters`
+      };
+    }
+    retrievedDocuments = await expandWithAdjacentChunks(documents, finalConfig.contextWindow, finalConfig.retrievalBackend);
+    signal?.throwIfAborted();
 
-    // Step 4: Retrieve similar documents from Nelson Textbook
-    yield '📚 Searching Nelson Textbook of Pediatrics...';
-    const retrievedDocuments = await searchSimilarDocuments(
-      queryEmbedding,
-      finalConfig.similarityThreshold,
-      finalConfig.maxDocuments
-    );
+    yield { type: 'retrieval', documents: retrievedDocuments };
 
     if (retrievedDocuments.length === 0) {
-      const errorMessage = `I apologize, but I couldn't find relevant information in the Nelson Textbook of Pediatrics for your query: "${query}".
+      const response: RAGResponse = {
+        content: `I apologize, but I couldn't find relevant information in the Nelson Textbook of Pediatrics for your query: "${query}".
 
 This could be because:
 - The topic may not be covered in the available Nelson Textbook content
 - The query might need to be rephrased using more specific medical terminology
 - The similarity threshold may be too restrictive
 
-Please try rephrasing your question with more specific pediatric medical terms, or ask about a different aspect of the topic.`;
-      
-      yield errorMessage;
-      
-      return {
-        content: errorMessage,
+Please try rephrasing your question with more specific pediatric medical terms, or ask about a different aspect of the topic.`,
         confidence: 'low',
         citations: [],
         retrievedDocuments: [],
         processingTime: Date.now() - startTime
       };
+
+      yield { type: 'done', response };
+      return response;
     }
 
-    yield `🎯 Found ${retrievedDocuments.length} relevant medical references. Generating evidence-based response...`;
+    const cacheKey = (finalConfig.cacheAnswers ?? isAnswerCacheEnabled())
+      ? buildAnswerCacheKey(searchQueries[0], retrievedDocuments, provider, finalConfig.systemPrompt)
+      : null;
+    const cachedResponse = cacheKey ? getCachedAnswer(cacheKey, retrievedDocuments, startTime) : null;
+    if (cachedResponse) {
+      yield { type: 'status', stage: 'generating', message: 'Found an earlier answer for the same question and references' };
+      yield { type: 'token', content: cachedResponse.content };
+      for (const citation of cachedResponse.citations) {
+        yield { type: 'citation', citation };
+      }
+      yield { type: 'done', response: cachedResponse };
+      return cachedResponse;
+    }
 
-    // Step 4: Stream the response from Mistral
-    const responseGenerator = streamMedicalResponse(query, retrievedDocuments, conversationHistory);
-    
-    let finalResponse: any = null;
-    
-    for await (const chunk of responseGenerator) {
-      if (typeof chunk === 'string') {
-        fullContent += chunk;
-        yield chunk;
-      } else {
-        finalResponse = chunk;
+    yield {
+      type: 'status',
+      stage: 'generating',
+      message: `Found ${retrievedDocuments.length} relevant medical references. Generating evidence-based response`
+    };
+
+    // Step 4: Stream the response from the configured LLM provider
+    const responseGenerator = streamMedicalResponse(query, retrievedDocuments, conversationHistory, provider, signal, finalConfig.systemPrompt);
+    let generated: GeneratedResponse;
+
+    while (true) {
+      const { value, done } = await responseGenerator.next();
+      if (done) {
+        generated = value;
         break;
       }
+
+      fullContent += value;
+      yield { type: 'token', content: value };
     }
 
-    // Step 5: Save to chat history if session provided
-    if (sessionId && finalResponse) {
-      try {
-        await saveChatMessage(sessionId, 'user', query);
-        
-        // Convert response citations to database citation format
-        const dbCitations = finalResponse.citations.map((citation, index) => ({
-          document_id: retrievedDocuments[index]?.id || `doc_${index}`,
-          chapter: citation.chapter,
-          section: citation.section,
-          page_number: citation.page ? parseInt(citation.page) : undefined,
-          edition: citation.edition,
-          relevance_score: 0.8 // Default relevance score
-        }));
-        
-        await saveChatMessage(
-          sessionId,
-          'assistant',
-          finalResponse.content,
-          dbCitations,
-          finalResponse.confidence,
-          {
-            retrievedDocumentsCount: retrievedDocuments.length,
-            processingTime: Date.now() - startTime,
-            model: 'mistral-large-latest',
-            embeddingModel: 'sentence-transformers/all-MiniLM-L6-v2'
-          }
-        );
-      } catch (saveError) {
-        console.error('Failed to save chat messages:', saveError);
-      }
+    for (const citation of generated.citations) {
+      yield { type: 'citation', citation };
     }
 
-    const processingTime = Date.now() - startTime;
+    // Step 5: Verify the answer against the retrieved documents
+    yield { type: 'status', stage: 'verifying', message: 'Checking the response against the Nelson Textbook' };
+    const content = generated.content || fullContent;
+    const verification = await verifyGeneratedAnswer(content, retrievedDocuments, finalConfig, provider, signal);
 
-    return {
-      content: finalResponse?.content || fullContent,
-      confidence: finalResponse?.confidence || 'medium',
-      citations: finalResponse?.citations || [],
+    const response: RAGResponse = {
+      content,
+      confidence: gradeConfidence(retrievedDocuments, verification, trace),
+      citations: generated.citations,
       retrievedDocuments,
-      processingTime
+      processingTime: Date.now() - startTime,
+      verification,
+      metadata: buildResponseMetadata(retrievedDocuments, finalConfig, provider, trace, generated.prompt, verification)
     };
 
+    if (cacheKey && !signal?.aborted) {
+      cacheAnswer(cacheKey, response);
+    }
+    yield { type: 'done', response };
+    return response;
+
   } catch (error) {
+    // A cancelled request has no listener left; hand back whatever was generated
+    if (signal?.aborted) {
+      console.log('Streaming RAG pipeline stopped by the client');
+      return {
+        content: fullContent,
+        confidence: 'low',
+        citations: buildCitations(fullContent, retrievedDocuments),
+        retrievedDocuments,
+        processingTime: Date.now() - startTime,
+        stopped: true
+      };
+    }
+
     console.error('Streaming RAG pipeline error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     
@@ -328,15 +717,18 @@ Please try:
 
 If the problem persists, please contact technical support.`;
 
-    yield finalErrorMessage;
+    yield { type: 'error', message: errorMessage };
 
-    return {
+    const response: RAGResponse = {
       content: finalErrorMessage,
       confidence: 'low',
       citations: [],
       retrievedDocuments: [],
       processingTime: Date.now() - startTime
     };
+
+    yield { type: 'done', response };
+    return response;
   }
 }
 
@@ -0,0 +1,169 @@
+import { NelsonDocument } from '@/lib/supabase';
+import { readEnv } from '@/lib/env';
+import { LLMProvider } from './llmProvider';
+
+// Second-stage ranking of retrieved Nelson chunks. Retrieval over-fetches candidates by
+// vector/text score; a reranker reads query and chunk together and keeps the best few.
+// Selected with RERANKER:
+// - cross-encoder: local ONNX MS MARCO cross-encoder (RERANKER_MODEL)
+// - llm: the configured LLM provider scores each chunk
+// - bm25: lexical BM25 over the candidate set (default, no model needed)
+// - none: keep the retrieval order
+
+export interface Reranker {
+  name: string;
+  // One 0-1 relevance score per document, in input order
+  score(query: string, documents: NelsonDocument[], signal?: AbortSignal): Promise<number[]>;
+}
+
+export type RerankerType = 'cross-encoder' | 'llm' | 'bm25' | 'none';
+
+// BM25 parameters (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Passage length sent to the LLM reranker
+const MAX_LLM_PASSAGE_CHARS = 800;
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(token => token.length > 1);
+}
+
+// Reranker backed by the local cross-encoder model
+export function createCrossEncoderReranker(model?: string): Reranker {
+  return {
+    name: 'cross-encoder',
+
+    async score(query, documents) {
+      const { runLocalCrossEncoder } = await import('./localRerankModel');
+      return runLocalCrossEncoder(query, documents.map(doc => doc.content), model);
+    }
+  };
+}
+
+// Reranker that asks the LLM provider to grade each chunk from 0 to 10
+export function createLLMReranker(provider: LLMProvider): Reranker {
+  return {
+    name: 'llm',
+
+    async score(query, documents, signal) {
+      const passages = documents
+        .map((doc, index) => `[${index + 1}] ${doc.content.slice(0, MAX_LLM_PASSAGE_CHARS)}`)
+        .join('\n\n');
+
+      const reply = await provider.complete([
+        {
+          role: 'system',
+          content: 'You grade how useful passages from the Nelson Textbook of Pediatrics are for answering a question. Reply with JSON only.'
+        },
+        {
+          role: 'user',
+          content: `Question: ${query}\n\nPassages:\n\n${passages}\n\nReply as {"scores": [{"passage": 1, "score": 7}, ...]} with a 0-10 score for every passage.`
+        }
+      ], { temperature: 0, signal });
+
+      const json = reply.slice(reply.indexOf('{'), reply.lastIndexOf('}') + 1);
+      const { scores } = JSON.parse(json) as { scores: Array<{ passage: number; score: number }> };
+
+      const graded = documents.map(() => 0);
+      for (const { passage, score } of scores) {
+        if (passage >= 1 && passage <= documents.length) {
+          graded[passage - 1] = Math.min(Math.max(score / 10, 0), 1);
+        }
+      }
+      return graded;
+    }
+  };
+}
+
+// Reranker using BM25 over the candidate chunks, normalized to the best match
+export function createBM25Reranker(): Reranker {
+  return {
+    name: 'bm25',
+
+    async score(query, documents) {
+      const queryTerms = [...new Set(tokenize(query))];
+      const docTokens = documents.map(doc => tokenize(doc.content));
+      const averageLength = docTokens.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(docTokens.length, 1);
+
+      const documentFrequency = new Map<string, number>();
+      for (const tokens of docTokens) {
+        for (const term of new Set(tokens)) {
+          documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+      }
+
+      const scores = docTokens.map(tokens => {
+        const termFrequency = new Map<string, number>();
+        for (const token of tokens) {
+          termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+        }
+
+        return queryTerms.reduce((sum, term) => {
+          const frequency = termFrequency.get(term) || 0;
+          if (frequency === 0) return sum;
+
+          const df = documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+          const lengthNorm = 1 - BM25_B + BM25_B * (tokens.length / (averageLength || 1));
+          return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+        }, 0);
+      });
+
+      const best = Math.max(...scores, 0);
+      return scores.map(score => (best > 0 ? score / best : 0));
+    }
+  };
+}
+
+// Build the reranker selected through RERANKER; null keeps the retrieval order
+export function getReranker(provider?: LLMProvider): Reranker | null {
+  const rerankerType = (readEnv('RERANKER') || 'bm25') as RerankerType;
+
+  switch (rerankerType) {
+    case 'none':
+      return null;
+
+    case 'bm25':
+      return createBM25Reranker();
+
+    case 'cross-encoder':
+      return createCrossEncoderReranker(readEnv('RERANKER_MODEL'));
+
+    case 'llm':
+      if (!provider) {
+        throw new Error('The llm reranker needs an LLM provider');
+      }
+      return createLLMReranker(provider);
+
+    default:
+      throw new Error(`Unknown reranker: ${rerankerType}`);
+  }
+}
+
+// Rerank candidates and keep the top documents, falling back to BM25 if the reranker fails
+export async function rerankDocuments(
+  query: string,
+  documents: NelsonDocument[],
+  reranker: Reranker,
+  limit: number,
+  signal?: AbortSignal
+): Promise<NelsonDocument[]> {
+  if (documents.length === 0) {
+    return documents;
+  }
+
+  let scores: number[];
+  try {
+    scores = await reranker.score(query, documents, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`${reranker.name} reranker failed, using BM25 instead:`, error);
+    scores = await createBM25Reranker().score(query, documents);
+  }
+
+  return documents
+    .map((doc, index) => ({ ...doc, rerank_score: scores[index] ?? 0 }))
+    .sort((a, b) => b.rerank_score - a.rerank_score)
+    .slice(0, limit);
+}
@@ -0,0 +1,172 @@
+import {
+  NelsonDocument,
+  searchSimilarDocuments,
+  searchTextDocuments,
+  hybridSearchDocuments,
+  searchDocumentsByChapter,
+  getNelsonChapters,
+  getNelsonChunksByIndexRange,
+  getNelsonEmbeddingModels
+} from '@/lib/supabase';
+import { calculateSimilarity } from './embeddingService';
+
+// Where retrieval reads Nelson chunks from. The pipeline uses the Supabase functions by
+// default; evaluation swaps in an in-memory corpus so runs are reproducible offline.
+
+export interface RetrievalBackend {
+  name: string;
+  searchVector(embedding: number[], threshold: number, count: number): Promise<NelsonDocument[]>;
+  searchText(query: string, count: number): Promise<NelsonDocument[]>;
+  searchHybrid(
+    query: string,
+    embedding: number[],
+    threshold: number,
+    count: number,
+    vectorWeight: number,
+    textWeight: number
+  ): Promise<NelsonDocument[]>;
+  searchChapter(embedding: number[], chapter: string, threshold: number, count: number): Promise<NelsonDocument[]>;
+  listChapters(): Promise<string[]>;
+  getChunkRange(chapter: string, fromIndex: number, toIndex: number): Promise<NelsonDocument[]>;
+  // Model the stored vectors were embedded with; null when not recorded
+  indexEmbeddingModel(): Promise<string | null>;
+}
+
+// The index model changes only when chunks are re-ingested or re-embedded
+const INDEX_MODEL_TTL_MS = 5 * 60 * 1000;
+
+let indexModelCache: { model: Promise<string | null>; expiresAt: number } | null = null;
+
+// Most common model recorded for the stored chunks; unknown (null) if it cannot be read
+async function loadIndexEmbeddingModel(): Promise<string | null> {
+  try {
+    const recorded = (await getNelsonEmbeddingModels()).filter(entry => entry.model);
+    if (recorded.length > 1) {
+      console.warn(`Nelson index mixes embedding models (${recorded.map(entry => `${entry.model}: ${entry.chunks}`).join(', ')}); finish re-embedding`);
+    }
+    return recorded[0]?.model ?? null;
+  } catch (error) {
+    console.warn('Could not determine the Nelson index embedding model:', error);
+    return null;
+  }
+}
+
+export const supabaseRetrievalBackend: RetrievalBackend = {
+  name: 'supabase',
+  searchVector: searchSimilarDocuments,
+  searchText: searchTextDocuments,
+  searchHybrid: hybridSearchDocuments,
+  searchChapter: searchDocumentsByChapter,
+  listChapters: getNelsonChapters,
+  getChunkRange: getNelsonChunksByIndexRange,
+
+  indexEmbeddingModel() {
+    if (!indexModelCache || indexModelCache.expiresAt <= Date.now()) {
+      indexModelCache = { model: loadIndexEmbeddingModel(), expiresAt: Date.now() + INDEX_MODEL_TTL_MS };
+    }
+    return indexModelCache.model;
+  }
+};
+
+function textTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(term => term.length > 2);
+}
+
+// In-memory backend over embedded chunks; scores mirror the SQL functions
+// (cosine similarity, any-term text rank normalized to 0-1, weighted hybrid score)
+export function createInMemoryRetrievalBackend(
+  documents: NelsonDocument[],
+  embeddingModel: string | null = null
+): RetrievalBackend {
+  const termCounts = documents.map(doc => {
+    const counts = new Map<string, number>();
+    for (const term of textTerms(doc.content)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return counts;
+  });
+
+  const similarityOf = (doc: NelsonDocument, embedding: number[]) =>
+    doc.embedding.length === embedding.length ? calculateSimilarity(doc.embedding, embedding) : 0;
+
+  const textRankOf = (index: number, queryTerms: string[]) => {
+    const raw = queryTerms.reduce((sum, term) => sum + Math.log(1 + (termCounts[index].get(term) || 0)), 0);
+    return raw / (raw + 1);
+  };
+
+  const vectorSearch = (candidates: NelsonDocument[], embedding: number[], threshold: number, count: number) =>
+    candidates
+      .map(doc => {
+        const similarity = similarityOf(doc, embedding);
+        return { ...doc, similarity, score: similarity };
+      })
+      .filter(doc => doc.similarity > threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, count);
+
+  const textSearch = (query: string, count: number) => {
+    const queryTerms = [...new Set(textTerms(query))];
+    return documents
+      .map((doc, index) => {
+        const textRank = textRankOf(index, queryTerms);
+        return { ...doc, text_rank: textRank, score: textRank };
+      })
+      .filter(doc => doc.text_rank > 0)
+      .sort((a, b) => b.text_rank - a.text_rank)
+      .slice(0, count);
+  };
+
+  return {
+    name: 'in-memory',
+
+    async searchVector(embedding, threshold, count) {
+      return vectorSearch(documents, embedding, threshold, count);
+    },
+
+    async searchText(query, count) {
+      return textSearch(query, count);
+    },
+
+    async searchHybrid(query, embedding, threshold, count, vectorWeight, textWeight) {
+      const candidateIds = new Set([
+        ...vectorSearch(documents, embedding, threshold, count * 4).map(doc => doc.id),
+        ...textSearch(query, count * 4).map(doc => doc.id)
+      ]);
+      const queryTerms = [...new Set(textTerms(query))];
+
+      return documents
+        .map((doc, index) => ({ doc, index }))
+        .filter(({ doc }) => candidateIds.has(doc.id))
+        .map(({ doc, index }) => {
+          const similarity = similarityOf(doc, embedding);
+          const textRank = textRankOf(index, queryTerms);
+          return { ...doc, similarity, text_rank: textRank, score: similarity * vectorWeight + textRank * textWeight };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count);
+    },
+
+    async searchChapter(embedding, chapter, threshold, count) {
+      return vectorSearch(documents.filter(doc => doc.chapter === chapter), embedding, threshold, count);
+    },
+
+    async listChapters() {
+      return [...new Set(documents.map(doc => doc.chapter))].sort();
+    },
+
+    async getChunkRange(chapter, fromIndex, toIndex) {
+      return documents
+        .filter(doc =>
+          doc.chapter === chapter &&
+          doc.chunk_index !== undefined &&
+          doc.chunk_index >= fromIndex &&
+          doc.chunk_index <= toIndex
+        )
+        .sort((a, b) => (a.chunk_index ?? 0) - (b.chunk_index ?? 0));
+    },
+
+    async indexEmbeddingModel() {
+      return embeddingModel;
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { boostSpecialtyDocuments } from './specialtyRouting';
+import type { NelsonDocument } from '@/lib/supabase';
+
+function doc(id: string, chapter: string, score: number, similarity?: number): NelsonDocument {
+  return {
+    id,
+    chapter,
+    section: 'Section',
+    content: id,
+    edition: '22nd',
+    keywords: [],
+    embedding: [],
+    created_at: '',
+    updated_at: '',
+    score,
+    similarity
+  };
+}
+
+// General candidates carry hybrid scores (well below raw cosine similarity)
+const general = Array.from({ length: 10 }, (_, index) => doc(`g${index}`, 'Otitis Media', 0.6 - index * 0.05));
+// Chapter candidates carry raw similarity as their score
+const chapterHits = Array.from({ length: 10 }, (_, index) => {
+  const similarity = 0.85 - index * 0.01;
+  return doc(`c${index}`, 'Pneumonia', similarity, similarity);
+});
+
+describe('boostSpecialtyDocuments', () => {
+  it('interleaves hybrid-scored and chapter-scored candidates instead of ranking every chapter hit first', () => {
+    const merged = boostSpecialtyDocuments(general, chapterHits, ['Pneumonia']).slice(0, 10);
+
+    expect(merged.map(document => document.id)).toEqual(['c0', 'c1', 'g0', 'c2', 'g1', 'c3', 'g2', 'g3', 'c4', 'g4']);
+  });
+
+  it('boosts general candidates from a specialty chapter', () => {
+    const candidates = [general[0], doc('p', 'Pneumonia', 0.58), ...general.slice(1, 8)];
+
+    const merged = boostSpecialtyDocuments(candidates, [], ['Pneumonia']);
+
+    expect(merged.map(document => document.id).slice(0, 3)).toEqual(['p', 'g0', 'g1']);
+  });
+
+  it('keeps one copy of a chunk found by both searches, with its original score', () => {
+    const shared = doc('shared', 'Pneumonia', 0.4);
+    const sharedHit = doc('shared', 'Pneumonia', 0.9, 0.9);
+
+    const merged = boostSpecialtyDocuments([general[0], shared], [sharedHit], ['Pneumonia']);
+
+    expect(merged.map(document => document.id)).toEqual(['shared', 'g0']);
+    expect(merged[0].score).toBe(0.4);
+    expect(merged[1].score).toBe(0.6);
+  });
+});
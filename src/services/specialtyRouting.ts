@@ -0,0 +1,114 @@
+import { NelsonDocument } from '@/lib/supabase';
+import { generateEmbedding } from './embeddingService';
+import { supabaseRetrievalBackend, RetrievalBackend } from './retrievalBackend';
+
+// Maps the specialties found by detectMedicalSpecialty to Nelson chapters, so retrieval
+// can favour (boost) or restrict itself to (filter) the chapters of the relevant specialty.
+
+export type SpecialtyRouting = 'off' | 'boost' | 'filter';
+
+// Words that identify a specialty's chapters in Nelson chapter titles
+const SPECIALTY_CHAPTER_KEYWORDS: Record<string, string[]> = {
+  cardiology: ['heart', 'cardiac', 'cardio', 'arrhythmia', 'myocard', 'endocard', 'pericard', 'kawasaki'],
+  neonatology: ['newborn', 'neonat', 'fetus', 'fetal', 'preterm', 'premature', 'birth'],
+  infectious_disease: ['infection', 'infectious', 'bacterial', 'viral', 'virus', 'fungal', 'parasit', 'immuniz', 'vaccin', 'antibiotic', 'fever'],
+  pulmonology: ['respiratory', 'lung', 'pulmonary', 'asthma', 'airway', 'pneumonia', 'bronch'],
+  gastroenterology: ['digestive', 'gastro', 'intestin', 'liver', 'hepat', 'pancrea', 'esophag', 'nutrition', 'feeding'],
+  neurology: ['nervous system', 'neuro', 'seizure', 'epilep', 'brain', 'development'],
+  endocrinology: ['endocrin', 'diabetes', 'thyroid', 'adrenal', 'pituitary', 'growth', 'puberty'],
+  emergency: ['emergency', 'critical care', 'resuscitation', 'shock', 'injur', 'trauma', 'poison']
+};
+
+// Chapter searches per query are capped to keep the number of RPC calls small
+const MAX_SPECIALTY_CHAPTERS = 8;
+// Relative rank bonus for chunks from a specialty chapter in boost mode
+const SPECIALTY_BOOST = 0.15;
+
+const chapterTitles = new WeakMap<RetrievalBackend, Promise<string[]>>();
+
+// Chapter titles change only on re-ingestion, so they are loaded once per backend
+function getChapterTitles(backend: RetrievalBackend): Promise<string[]> {
+  let titles = chapterTitles.get(backend);
+  if (!titles) {
+    titles = backend.listChapters();
+    chapterTitles.set(backend, titles);
+    titles.catch(() => chapterTitles.delete(backend));
+  }
+  return titles;
+}
+
+// Find the Nelson chapters whose titles match the detected specialties
+export async function resolveSpecialtyChapters(
+  specialties: string[],
+  backend: RetrievalBackend = supabaseRetrievalBackend
+): Promise<string[]> {
+  const keywords = specialties.flatMap(specialty => SPECIALTY_CHAPTER_KEYWORDS[specialty] || []);
+  if (keywords.length === 0) {
+    return [];
+  }
+
+  const titles = await getChapterTitles(backend);
+  return titles
+    .filter(title => keywords.some(keyword => title.toLowerCase().includes(keyword)))
+    .slice(0, MAX_SPECIALTY_CHAPTERS);
+}
+
+// Vector search within each specialty chapter, merged into one list by similarity
+export async function retrieveFromChapters(
+  query: string,
+  chapters: string[],
+  similarityThreshold: number,
+  matchCount: number,
+  backend: RetrievalBackend = supabaseRetrievalBackend
+): Promise<NelsonDocument[]> {
+  if (chapters.length === 0) {
+    return [];
+  }
+
+  const { embedding } = await generateEmbedding(query, undefined, await backend.indexEmbeddingModel());
+  const resultSets = await Promise.all(
+    chapters.map(chapter =>
+      backend.searchChapter(embedding, chapter, similarityThreshold, matchCount).catch(error => {
+        console.warn(`Chapter search failed for "${chapter}":`, error);
+        return [];
+      })
+    )
+  );
+
+  return resultSets
+    .flat()
+    .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
+    .slice(0, matchCount);
+}
+
+// Relevance from a document's position in a ranked list: 1 for the best, falling linearly
+function rankRelevance(documents: NelsonDocument[]): Map<string, number> {
+  return new Map(documents.map((doc, index) => [doc.id, 1 - index / documents.length]));
+}
+
+// Combine general and specialty-chapter candidates; specialty chunks get a relevance bonus.
+// General candidates carry hybrid or fused scores and chapter candidates raw similarity, so
+// the two lists are compared by rank rather than by score. Document scores are left as found.
+export function boostSpecialtyDocuments(
+  documents: NelsonDocument[],
+  chapterDocuments: NelsonDocument[],
+  chapters: string[]
+): NelsonDocument[] {
+  const generalRelevance = rankRelevance(documents);
+  const chapterRelevance = rankRelevance(chapterDocuments);
+  const merged = new Map<string, { doc: NelsonDocument; relevance: number }>();
+
+  for (const doc of [...documents, ...chapterDocuments]) {
+    if (merged.has(doc.id)) continue;
+
+    const relevance = Math.max(generalRelevance.get(doc.id) ?? 0, chapterRelevance.get(doc.id) ?? 0);
+    merged.set(doc.id, {
+      doc,
+      relevance: chapters.includes(doc.chapter) ? relevance * (1 + SPECIALTY_BOOST) : relevance
+    });
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => b.relevance - a.relevance)
+    .map(({ doc }) => doc);
+}
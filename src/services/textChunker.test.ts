@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from './textChunker';
+
+describe('chunkText', () => {
+  it('starts a chunk at each heading and records the heading path', () => {
+    const text = '# Croup\n\nCroup is a viral illness.\n\n## Treatment\n\nGive dexamethasone.\n\n# Asthma\n\nAsthma is common.';
+
+    const chunks = chunkText(text);
+
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([['Croup'], ['Croup', 'Treatment'], ['Asthma']]);
+    expect(chunks[1].content).toBe('## Treatment\n\nGive dexamethasone.');
+  });
+
+  it('returns exact source slices as offsets', () => {
+    const text = '# Fever\n\nFever is common in infants. Most causes are viral. Some need antibiotics.';
+
+    for (const chunk of chunkText(text, { maxChunkSize: 40, overlap: 0 })) {
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+    }
+  });
+
+  it('does not split sentences at decimals or abbreviations', () => {
+    const first = 'Give 0.01 mg/kg of epinephrine i.m. in the thigh, e.g. the vastus lateralis.';
+    const second = 'Repeat every 5 minutes if needed.';
+
+    const chunks = chunkText(`${first} ${second}`, { maxChunkSize: first.length + 5, overlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([first, second]);
+  });
+
+  it('repeats the end of the previous chunk within a section', () => {
+    const text = 'Bronchiolitis peaks in winter. Supportive care is the mainstay. Oxygen is given below 90 percent.';
+
+    const chunks = chunkText(text, { maxChunkSize: 60, overlap: 25 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[1].startOffset).toBeLessThan(chunks[0].endOffset);
+  });
+
+  it('keeps a table whole even when it exceeds the chunk size', () => {
+    const table = '| Weight | Dose |\n| --- | --- |\n| 10 kg | 6 mg |\n| 20 kg | 12 mg |';
+    const text = `Dexamethasone dosing by weight.\n\n${table}\n\nGive once.`;
+
+    const chunks = chunkText(text, { maxChunkSize: 40, overlap: 10 });
+
+    expect(chunks.some(chunk => chunk.content.includes(table))).toBe(true);
+  });
+
+  it('splits a very long table into row groups that repeat the header', () => {
+    const header = '| Age | Heart rate |\n| --- | --- |';
+    const rows = Array.from({ length: 30 }, (_, index) => `| ${index} months | ${100 + index} bpm |`);
+    const text = [header, ...rows].join('\n');
+
+    const chunks = chunkText(text, { maxChunkSize: 120, overlap: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.startsWith(header)).toBe(true);
+    }
+    expect(chunks.flatMap(chunk => chunk.content.split('\n').slice(2))).toEqual(rows);
+  });
+
+  it('does not repeat a split table in the chunk after it and keeps the heading on its first piece', () => {
+    const header = '| Age | Heart rate |\n| --- | --- |';
+    const rows = Array.from({ length: 60 }, (_, index) => `| ${index} months | ${100 + index} bpm |`);
+    const text = `## Vital signs\n\n${[header, ...rows].join('\n')}\n\nRates fall with age.`;
+
+    const chunks = chunkText(text, { maxChunkSize: 300, overlap: 50 });
+    const last = chunks[chunks.length - 1];
+
+    expect(chunks[0].content.startsWith(`## Vital signs\n\n${header}`)).toBe(true);
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks.slice(1, -1).every(chunk => chunk.content.startsWith(header))).toBe(true);
+    expect(last.content).toBe('Rates fall with age.');
+    expect(chunks.filter(chunk => chunk.content.includes('| 30 months |'))).toHaveLength(1);
+    expect(chunks.every(chunk => chunk.content.length <= 600)).toBe(true);
+  });
+});
@@ -0,0 +1,308 @@
+// Structure-aware chunking of Nelson text. Markdown headings always start a new chunk,
+// tables and lists (dosing schedules, criteria) are kept whole, and paragraphs are split
+// at sentence ends that are not decimals ("0.01 mg/kg") or abbreviations ("e.g.").
+// Chunks are exact slices of the source, so offsets can be mapped back to pages.
+
+export interface TextChunk {
+  content: string;
+  // Headings the chunk sits under, outermost first
+  headingPath: string[];
+  // Character range of the chunk in the source text (end exclusive)
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface ChunkOptions {
+  // Target chunk length in characters; tables and lists may exceed it to stay whole
+  maxChunkSize: number;
+  // Characters of the previous chunk repeated at the start of the next, within a section
+  overlap: number;
+}
+
+type BlockKind = 'heading' | 'table' | 'list' | 'paragraph';
+
+interface Block {
+  kind: BlockKind;
+  start: number;
+  end: number;
+}
+
+interface Unit {
+  start: number;
+  end: number;
+  // Tables and lists are never split across chunks unless far too long
+  atomic: boolean;
+  // Set when the unit is not a plain source slice (a table piece with its header repeated)
+  content?: string;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxChunkSize: 500,
+  overlap: 50
+};
+
+// Tables and lists up to this multiple of maxChunkSize stay in one chunk
+const MAX_ATOMIC_FACTOR = 3;
+
+const HEADING_LINE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const TABLE_LINE = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_LINE = /^\s*\|?\s*:?-{3,}/;
+const LIST_ITEM_LINE = /^\s*([-*+•]|\d+[.)]|[a-z][.)])\s+\S/;
+const CONTINUATION_LINE = /^\s{2,}\S/;
+
+// Words that end with a full stop without ending the sentence (compared lower-case, final dot removed)
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'cf', 'al', 'approx', 'ca', 'fig', 'figs', 'no', 'nos', 'vol', 'ed', 'eds',
+  'dr', 'mr', 'mrs', 'ms', 'prof', 'st', 'max', 'min', 'resp', 'wk', 'wks', 'yr', 'yrs', 'mo', 'mos',
+  'hr', 'hrs', 'b.i.d', 't.i.d', 'q.i.d', 'q.d', 'p.o', 'i.v', 'i.m', 's.c', 'p.r.n', 'q'
+]);
+
+// Group lines into headings, tables, lists and paragraphs with their source offsets
+function parseBlocks(text: string): Array<Block & { level?: number; title?: string }> {
+  const blocks: Array<Block & { level?: number; title?: string }> = [];
+  let current: Block | null = null;
+  let offset = 0;
+
+  const close = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (const line of text.split('\n')) {
+    const start = offset;
+    const end = offset + line.length;
+    offset = end + 1;
+
+    if (!line.trim()) {
+      close();
+      continue;
+    }
+
+    const heading = line.match(HEADING_LINE);
+    if (heading) {
+      close();
+      blocks.push({ kind: 'heading', start, end, level: heading[1].length, title: heading[2].trim() });
+      continue;
+    }
+
+    const kind: BlockKind = TABLE_LINE.test(line)
+      ? 'table'
+      : LIST_ITEM_LINE.test(line) ? 'list' : 'paragraph';
+
+    const block = current as Block | null;
+    // Wrapped or indented lines continue the list item above them
+    const continuesList = block?.kind === 'list' && (kind === 'list' || kind === 'paragraph' || CONTINUATION_LINE.test(line));
+
+    if (block && (block.kind === kind || continuesList)) {
+      block.end = end;
+    } else {
+      close();
+      current = { kind, start, end };
+    }
+  }
+
+  close();
+  return blocks;
+}
+
+// Sentence ranges within [start, end), ignoring full stops in decimals, abbreviations and initials
+function splitSentences(text: string, start: number, end: number): Unit[] {
+  const segment = text.slice(start, end);
+  const sentences: Unit[] = [];
+  let sentenceStart = 0;
+
+  for (const match of segment.matchAll(/[.!?]+["')\]]*(\s+)/g)) {
+    const index = match.index ?? 0;
+    const boundary = index + match[0].length - match[1].length;
+    const nextChar = segment[index + match[0].length];
+    const word = (segment.slice(sentenceStart, index).match(/(\S+)$/)?.[1] || '').replace(/^[("[]+/, '');
+
+    const isAbbreviation = segment[index] === '.' && ABBREVIATIONS.has(word.toLowerCase());
+    const isInitial = segment[index] === '.' && /^[A-Z]$/.test(word);
+    const continuesLowercase = nextChar !== undefined && /[a-z]/.test(nextChar);
+    if (isAbbreviation || isInitial || continuesLowercase) continue;
+
+    sentences.push({ start: start + sentenceStart, end: start + boundary, atomic: false });
+    sentenceStart = index + match[0].length;
+  }
+
+  if (sentenceStart < segment.length && segment.slice(sentenceStart).trim()) {
+    sentences.push({ start: start + sentenceStart, end, atomic: false });
+  }
+
+  return sentences;
+}
+
+// Break an over-long sentence at word boundaries
+function splitByWords(text: string, unit: Unit, maxChunkSize: number): Unit[] {
+  const pieces: Unit[] = [];
+  let pieceStart = unit.start;
+
+  for (const match of text.slice(unit.start, unit.end).matchAll(/\s+/g)) {
+    const position = unit.start + (match.index ?? 0);
+    if (position - pieceStart >= maxChunkSize) {
+      pieces.push({ start: pieceStart, end: position, atomic: false });
+      pieceStart = position + match[0].length;
+    }
+  }
+
+  pieces.push({ start: pieceStart, end: unit.end, atomic: false });
+  return pieces;
+}
+
+// Break an over-long table into row groups that each repeat the header, or a list into item groups
+function splitAtomicBlock(text: string, block: Block, maxChunkSize: number): Unit[] {
+  const lines: Array<{ start: number; end: number }> = [];
+  let offset = block.start;
+  for (const line of text.slice(block.start, block.end).split('\n')) {
+    lines.push({ start: offset, end: offset + line.length });
+    offset += line.length + 1;
+  }
+
+  let header = '';
+  let rows = lines;
+  if (block.kind === 'table') {
+    const headerLength = lines.length > 1 && TABLE_SEPARATOR_LINE.test(text.slice(lines[1].start, lines[1].end)) ? 2 : 1;
+    header = lines.slice(0, headerLength).map(line => text.slice(line.start, line.end)).join('\n');
+    rows = lines.slice(headerLength);
+  } else {
+    // Keep each list item together with its continuation lines
+    rows = [];
+    for (const line of lines) {
+      if (LIST_ITEM_LINE.test(text.slice(line.start, line.end)) || rows.length === 0) {
+        rows.push({ ...line });
+      } else {
+        rows[rows.length - 1].end = line.end;
+      }
+    }
+  }
+
+  const pieces: Unit[] = [];
+  let group: Array<{ start: number; end: number }> = [];
+
+  const flushGroup = () => {
+    if (group.length === 0) return;
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const body = text.slice(start, end);
+    pieces.push({ start, end, atomic: true, content: header ? `${header}\n${body}` : undefined });
+    group = [];
+  };
+
+  for (const row of rows) {
+    const groupLength = group.length > 0 ? row.end - group[0].start : row.end - row.start;
+    if (group.length > 0 && header.length + groupLength > maxChunkSize) {
+      flushGroup();
+    }
+    group.push(row);
+  }
+  flushGroup();
+
+  return pieces;
+}
+
+// Start of the overlap: the last `overlap` characters of the previous chunk, from a word start
+function findOverlapStart(text: string, previousStart: number, previousEnd: number, overlap: number): number {
+  let position = Math.max(previousStart, previousEnd - overlap);
+  while (position < previousEnd && position > previousStart && !/\s/.test(text[position - 1])) {
+    position++;
+  }
+  return position;
+}
+
+// Split text into structure-aware chunks with heading paths and source offsets
+export function chunkText(text: string, options: Partial<ChunkOptions> = {}): TextChunk[] {
+  const { maxChunkSize, overlap } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const chunks: TextChunk[] = [];
+  let headingPath: string[] = [];
+
+  // The chunk being built: a contiguous source range, or standalone content
+  let chunkStart = -1;
+  let chunkEnd = -1;
+  let endsWithAtomic = false;
+  // Start of the heading line that opens the next chunk
+  let sectionStart = -1;
+
+  const push = (start: number, end: number, content?: string) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+    chunks.push({
+      content: content ?? trimmed,
+      headingPath: [...headingPath],
+      startOffset: start + leading,
+      endOffset: start + leading + trimmed.length
+    });
+  };
+
+  const flush = () => {
+    if (chunkStart >= 0) push(chunkStart, chunkEnd);
+    chunkStart = -1;
+  };
+
+  const addUnit = (unit: Unit) => {
+    if (unit.content !== undefined) {
+      // Header-repeating table pieces are chunks of their own; the first piece of a
+      // section also carries its heading line
+      flush();
+      if (sectionStart >= 0) {
+        const heading = text.slice(sectionStart).split('\n', 1)[0].trim();
+        push(sectionStart, unit.end, `${heading}\n\n${unit.content}`);
+        sectionStart = -1;
+      } else {
+        push(unit.start, unit.end, unit.content);
+      }
+      endsWithAtomic = true;
+      return;
+    }
+
+    if (chunkStart >= 0 && unit.end - chunkStart > maxChunkSize) {
+      const previousStart = chunkStart;
+      const previousEnd = chunkEnd;
+      flush();
+      // Overlap only carries running prose; tables and lists are never cut into
+      if (!endsWithAtomic && !unit.atomic && overlap > 0) {
+        const overlapStart = findOverlapStart(text, previousStart, previousEnd, overlap);
+        if (overlapStart < previousEnd) chunkStart = overlapStart;
+      }
+    }
+
+    if (chunkStart < 0) {
+      chunkStart = sectionStart >= 0 ? sectionStart : unit.start;
+      sectionStart = -1;
+    }
+    chunkEnd = unit.end;
+    endsWithAtomic = unit.atomic;
+  };
+
+  for (const block of parseBlocks(text)) {
+    if (block.kind === 'heading') {
+      flush();
+      headingPath = [...headingPath.slice(0, (block.level ?? 1) - 1), block.title ?? ''];
+      sectionStart = block.start;
+      continue;
+    }
+
+    if (block.kind === 'table' || block.kind === 'list') {
+      const length = block.end - block.start;
+      if (length <= maxChunkSize * MAX_ATOMIC_FACTOR) {
+        addUnit({ start: block.start, end: block.end, atomic: true });
+      } else {
+        splitAtomicBlock(text, block, maxChunkSize).forEach(addUnit);
+      }
+      continue;
+    }
+
+    for (const sentence of splitSentences(text, block.start, block.end)) {
+      if (sentence.end - sentence.start > maxChunkSize) {
+        splitByWords(text, sentence, maxChunkSize).forEach(addUnit);
+      } else {
+        addUnit(sentence);
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+}
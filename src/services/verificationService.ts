@@ -0,0 +1,183 @@
+import { NelsonDocument } from '@/lib/supabase';
+import { LLMMessage, LLMProvider } from './llmProvider';
+import { parseCitationMarkers } from './citations';
+import { countMessageTokens, fitContext, getPromptBudget } from './promptBuilder';
+
+// Post-generation faithfulness check. Each answer sentence is compared with the retrieved
+// Nelson chunks; clear lexical matches are accepted directly and the rest go to an LLM judge.
+
+export interface ClaimVerification {
+  text: string;
+  // Citation markers the claim carries, e.g. [2]
+  markers: number[];
+  // Share of the claim's content words found in its best supporting chunk
+  lexicalOverlap: number;
+  supported: boolean;
+  method: 'lexical' | 'llm';
+}
+
+export interface VerificationResult {
+  claims: ClaimVerification[];
+  supportedRatio: number;
+  unsupportedClaims: string[];
+  method: 'lexical' | 'lexical+llm';
+}
+
+// Overlap at which a claim is accepted without asking the judge
+const LEXICAL_ACCEPT_THRESHOLD = 0.8;
+// Overlap required when no judge verdict is available
+const LEXICAL_FALLBACK_THRESHOLD = 0.5;
+// Claims shorter than this many content words are formatting, not statements
+const MIN_CLAIM_TOKENS = 4;
+// Judge response tokens: the JSON wrapper plus one {"statement": n, "supported": true} per claim
+const JUDGE_RESPONSE_BASE_TOKENS = 64;
+const JUDGE_TOKENS_PER_VERDICT = 16;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'with', 'this', 'that', 'these', 'those', 'from',
+  'was', 'were', 'been', 'being', 'have', 'has', 'had', 'which', 'who', 'whom', 'whose', 'when',
+  'where', 'than', 'then', 'there', 'their', 'they', 'them', 'its', 'into', 'onto', 'also', 'such',
+  'may', 'can', 'could', 'should', 'would', 'will', 'shall', 'might', 'must', 'about',
+  'per', 'via', 'any', 'all', 'each', 'other', 'some', 'more', 'most', 'very', 'nelson',
+  'textbook', 'pediatrics', 'chapter', 'section'
+]);
+
+function contentTokens(text: string): string[] {
+  return (text
+    .toLowerCase()
+    .replace(/\[\d+(?:\s*,\s*\d+)*\]/g, ' ')
+    .match(/[a-z0-9]+/g) || [])
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+// Split a markdown answer into sentence-level claims, skipping headings, italic notes and short fragments
+export function splitIntoClaims(content: string): Array<{ text: string; markers: number[] }> {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !/^[-*_]{3,}$/.test(line) && !/^[*_][^*_].*[*_]$/.test(line))
+    .flatMap(line => line.replace(/^([-*+]|\d+\.)\s+/, '').split(/(?<=[.!?])\s+(?=[A-Z])/))
+    .map(text => text.replace(/\*\*|__|`/g, '').trim())
+    .filter(text => contentTokens(text).length >= MIN_CLAIM_TOKENS)
+    .map(text => ({ text, markers: parseCitationMarkers(text) }));
+}
+
+// Best share of claim words found in a single chunk, preferring the chunks the claim cites
+export function calculateLexicalOverlap(
+  claim: string,
+  markers: number[],
+  retrievedDocuments: NelsonDocument[]
+): number {
+  const claimTokens = [...new Set(contentTokens(claim))];
+  if (claimTokens.length === 0) return 0;
+
+  const citedDocuments = markers
+    .map(marker => retrievedDocuments[marker - 1])
+    .filter((doc): doc is NelsonDocument => Boolean(doc));
+  const candidates = citedDocuments.length > 0 ? citedDocuments : retrievedDocuments;
+
+  return Math.max(0, ...candidates.map(doc => {
+    const docTokens = new Set(contentTokens(doc.content));
+    return claimTokens.filter(token => docTokens.has(token)).length / claimTokens.length;
+  }));
+}
+
+// Ask the provider which claims the sources support; returns null if the reply is unusable
+async function judgeClaims(
+  claims: string[],
+  retrievedDocuments: NelsonDocument[],
+  provider: LLMProvider,
+  signal?: AbortSignal
+): Promise<boolean[] | null> {
+  const statements = claims
+    .map((claim, index) => `${index + 1}. ${claim}`)
+    .join('\n');
+
+  const systemMessage: LLMMessage = {
+    role: 'system',
+    content: 'You check whether statements are supported by excerpts from the Nelson Textbook of Pediatrics. A statement is supported only if the excerpts state it or directly imply it. Reply with JSON only.'
+  };
+  const buildUserMessage = (sources: string): LLMMessage => ({
+    role: 'user',
+    content: `Excerpts:\n\n${sources}\n\nStatements:\n${statements}\n\nReply as {"verdicts": [{"statement": 1, "supported": true}, ...]} with one verdict per statement.`
+  });
+
+  // The excerpts get the same token budget as the answer prompt, keeping their [n] labels
+  const budget = getPromptBudget(JUDGE_RESPONSE_BASE_TOKENS + claims.length * JUDGE_TOKENS_PER_VERDICT);
+  const available = budget.contextWindow - budget.responseTokens
+    - countMessageTokens(systemMessage) - countMessageTokens(buildUserMessage(''));
+  const { blocks, dropped } = fitContext(retrievedDocuments, Math.max(0, available));
+  if (dropped.length > 0) {
+    console.warn(`Verification budget dropped excerpts ${dropped.map(marker => `[${marker}]`).join(', ')}`);
+  }
+
+  const reply = await provider.complete(
+    [systemMessage, buildUserMessage(blocks.map(block => block.text).join('\n'))],
+    { temperature: 0, maxTokens: budget.responseTokens, signal }
+  );
+
+  try {
+    const json = reply.slice(reply.indexOf('{'), reply.lastIndexOf('}') + 1);
+    const { verdicts } = JSON.parse(json) as { verdicts: Array<{ statement: number; supported: boolean }> };
+    if (!Array.isArray(verdicts)) return null;
+
+    const supported = claims.map(() => false);
+    for (const verdict of verdicts) {
+      if (verdict.statement >= 1 && verdict.statement <= claims.length) {
+        supported[verdict.statement - 1] = verdict.supported === true;
+      }
+    }
+    return supported;
+  } catch {
+    return null;
+  }
+}
+
+// Verify a generated answer against the documents it was generated from
+export async function verifyAnswer(
+  content: string,
+  retrievedDocuments: NelsonDocument[],
+  provider?: LLMProvider,
+  signal?: AbortSignal
+): Promise<VerificationResult> {
+  const claims: ClaimVerification[] = splitIntoClaims(content).map(({ text, markers }) => {
+    const lexicalOverlap = calculateLexicalOverlap(text, markers, retrievedDocuments);
+    return {
+      text,
+      markers,
+      lexicalOverlap,
+      supported: lexicalOverlap >= LEXICAL_FALLBACK_THRESHOLD,
+      method: 'lexical'
+    };
+  });
+
+  let method: VerificationResult['method'] = 'lexical';
+  const uncertain = claims.filter(claim => claim.lexicalOverlap < LEXICAL_ACCEPT_THRESHOLD);
+
+  if (provider && uncertain.length > 0) {
+    try {
+      const verdicts = await judgeClaims(uncertain.map(claim => claim.text), retrievedDocuments, provider, signal);
+      if (verdicts) {
+        uncertain.forEach((claim, index) => {
+          claim.supported = verdicts[index];
+          claim.method = 'llm';
+        });
+        method = 'lexical+llm';
+      } else {
+        console.warn('Verification judge returned an unreadable reply; using lexical overlap only');
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('Verification judge failed; using lexical overlap only:', error);
+    }
+  }
+
+  const unsupportedClaims = claims.filter(claim => !claim.supported).map(claim => claim.text);
+
+  return {
+    claims,
+    supportedRatio: claims.length > 0 ? (claims.length - unsupportedClaims.length) / claims.length : 0,
+    unsupportedClaims,
+    method
+  };
+}
@@ -0,0 +1,25 @@
+/// <reference lib="webworker" />
+import { runLocalEmbedding } from '@/services/localEmbeddingModel';
+
+export interface EmbeddingWorkerRequest {
+  id: number;
+  texts: string[];
+  model: string;
+}
+
+export type EmbeddingWorkerResponse =
+  | { id: number; embeddings: number[][] }
+  | { id: number; error: string };
+
+// Embeds texts off the main thread so model inference never blocks the chat UI
+self.onmessage = async (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const { id, texts, model } = event.data;
+
+  try {
+    const embeddings = await runLocalEmbedding(texts, model);
+    self.postMessage({ id, embeddings } satisfies EmbeddingWorkerResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Local embedding failed';
+    self.postMessage({ id, error: message } satisfies EmbeddingWorkerResponse);
+  }
+};
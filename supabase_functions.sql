@@ -86,12 +86,95 @@ AS $$
   LIMIT match_count;
 $$;
 
--- Create a hybrid search function that combines text search and vector search
+-- Distinct chapter titles, used to map medical specialties to chapters
+CREATE OR REPLACE FUNCTION list_nelson_chapters()
+RETURNS TABLE (chapter_title text)
+LANGUAGE SQL STABLE
+AS $$
+  SELECT DISTINCT nelson_textbook_chunks.chapter_title
+  FROM nelson_textbook_chunks
+  WHERE nelson_textbook_chunks.chapter_title IS NOT NULL
+  ORDER BY 1;
+$$;
+
+-- Chunk identity: ingestion upserts on (chapter_title, chunk_index), and the same index
+-- serves neighbouring-chunk lookups when stitching context
+DROP INDEX IF EXISTS idx_nelson_chapter_chunk_index;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nelson_chapter_chunk
+ON nelson_textbook_chunks (chapter_title, chunk_index);
+
+-- Embedding models recorded in chunk metadata (NULL for chunks ingested before models were
+-- recorded), most used first; queries refuse an index built with a different model
+CREATE OR REPLACE FUNCTION list_nelson_embedding_models()
+RETURNS TABLE (embedding_model text, chunk_count bigint)
+LANGUAGE SQL STABLE
+AS $$
+  SELECT nelson_textbook_chunks.metadata->>'embedding_model', count(*)
+  FROM nelson_textbook_chunks
+  GROUP BY 1
+  ORDER BY 2 DESC;
+$$;
+
+-- Full-text index used by the text and hybrid search functions
+CREATE INDEX IF NOT EXISTS idx_nelson_content_fts
+ON nelson_textbook_chunks
+USING gin (to_tsvector('english', content));
+
+-- Build an OR-query from the lexemes of free text so that a single rare term
+-- (drug names, eponyms like "Kawasaki") is enough to produce a match
+CREATE OR REPLACE FUNCTION nelson_any_term_query(query_text text)
+RETURNS tsquery
+LANGUAGE SQL IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', array_to_string(tsvector_to_array(to_tsvector('english', query_text)), ' | '));
+$$;
+
+-- Create a ranked full-text search function
+CREATE OR REPLACE FUNCTION search_nelson_chunks_text(
+  query_text text,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  chapter_title text,
+  section_title text,
+  page_number integer,
+  chunk_index integer,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  text_rank float
+)
+LANGUAGE SQL STABLE
+AS $$
+  SELECT
+    nelson_textbook_chunks.id,
+    nelson_textbook_chunks.content,
+    nelson_textbook_chunks.chapter_title,
+    nelson_textbook_chunks.section_title,
+    nelson_textbook_chunks.page_number,
+    nelson_textbook_chunks.chunk_index,
+    nelson_textbook_chunks.metadata,
+    nelson_textbook_chunks.created_at,
+    -- Normalization 32 maps the rank into [0, 1) so it can be blended with cosine similarity
+    ts_rank_cd(to_tsvector('english', nelson_textbook_chunks.content), nelson_any_term_query(query_text), 32)::float AS text_rank
+  FROM nelson_textbook_chunks
+  WHERE to_tsvector('english', nelson_textbook_chunks.content) @@ nelson_any_term_query(query_text)
+  ORDER BY text_rank DESC
+  LIMIT match_count;
+$$;
+
+-- Create a hybrid search function that combines text search and vector search.
+-- Chunks found by either search are kept, and the weights control the blend.
+DROP FUNCTION IF EXISTS hybrid_search_nelson(text, vector, float, int);
+
 CREATE OR REPLACE FUNCTION hybrid_search_nelson(
   query_text text,
   query_embedding vector(384),
   match_threshold float DEFAULT 0.7,
-  match_count int DEFAULT 5
+  match_count int DEFAULT 5,
+  vector_weight float DEFAULT 0.7,
+  text_weight float DEFAULT 0.3
 )
 RETURNS TABLE (
   id uuid,
@@ -103,47 +186,55 @@ RETURNS TABLE (
   metadata jsonb,
   created_at timestamp with time zone,
   similarity float,
-  text_rank float
+  text_rank float,
+  hybrid_score float
 )
 LANGUAGE SQL STABLE
 AS $$
   WITH vector_search AS (
-    SELECT
-      nelson_textbook_chunks.id,
-      nelson_textbook_chunks.content,
-      nelson_textbook_chunks.chapter_title,
-      nelson_textbook_chunks.section_title,
-      nelson_textbook_chunks.page_number,
-      nelson_textbook_chunks.chunk_index,
-      nelson_textbook_chunks.metadata,
-      nelson_textbook_chunks.created_at,
-      1 - (nelson_textbook_chunks.embedding <=> query_embedding) AS similarity
+    SELECT nelson_textbook_chunks.id
     FROM nelson_textbook_chunks
     WHERE nelson_textbook_chunks.embedding IS NOT NULL
       AND 1 - (nelson_textbook_chunks.embedding <=> query_embedding) > match_threshold
+    ORDER BY nelson_textbook_chunks.embedding <=> query_embedding
+    LIMIT match_count * 4
   ),
   text_search AS (
     SELECT
       nelson_textbook_chunks.id,
-      ts_rank_cd(to_tsvector('english', nelson_textbook_chunks.content), plainto_tsquery('english', query_text)) AS text_rank
+      ts_rank_cd(to_tsvector('english', nelson_textbook_chunks.content), nelson_any_term_query(query_text), 32)::float AS text_rank
     FROM nelson_textbook_chunks
-    WHERE to_tsvector('english', nelson_textbook_chunks.content) @@ plainto_tsquery('english', query_text)
+    WHERE to_tsvector('english', nelson_textbook_chunks.content) @@ nelson_any_term_query(query_text)
+    ORDER BY text_rank DESC
+    LIMIT match_count * 4
+  ),
+  candidates AS (
+    SELECT COALESCE(v.id, t.id) AS id, COALESCE(t.text_rank, 0) AS text_rank
+    FROM vector_search v
+    FULL OUTER JOIN text_search t ON v.id = t.id
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      COALESCE(1 - (c.embedding <=> query_embedding), 0)::float AS similarity,
+      candidates.text_rank
+    FROM candidates
+    JOIN nelson_textbook_chunks c ON c.id = candidates.id
   )
   SELECT
-    v.id,
-    v.content,
-    v.chapter_title,
-    v.section_title,
-    v.page_number,
-    v.chunk_index,
-    v.metadata,
-    v.created_at,
-    v.similarity,
-    COALESCE(t.text_rank, 0) AS text_rank
-  FROM vector_search v
-  LEFT JOIN text_search t ON v.id = t.id
-  ORDER BY 
-    (v.similarity * 0.7 + COALESCE(t.text_rank, 0) * 0.3) DESC
+    s.id,
+    s.content,
+    s.chapter_title,
+    s.section_title,
+    s.page_number,
+    s.chunk_index,
+    s.metadata,
+    s.created_at,
+    s.similarity,
+    s.text_rank,
+    (s.similarity * vector_weight + s.text_rank * text_weight)::float AS hybrid_score
+  FROM scored s
+  ORDER BY hybrid_score DESC
   LIMIT match_count;
 $$;
 
@@ -151,8 +242,206 @@ $$;
 GRANT EXECUTE ON FUNCTION match_nelson_chunks TO authenticated;
 GRANT EXECUTE ON FUNCTION match_nelson_chunks_by_chapter TO authenticated;
 GRANT EXECUTE ON FUNCTION hybrid_search_nelson TO authenticated;
+GRANT EXECUTE ON FUNCTION search_nelson_chunks_text TO authenticated;
+GRANT EXECUTE ON FUNCTION list_nelson_chapters TO authenticated;
+GRANT EXECUTE ON FUNCTION list_nelson_embedding_models TO authenticated;
 
 -- Grant execute permissions to anonymous users (for public access)
 GRANT EXECUTE ON FUNCTION match_nelson_chunks TO anon;
 GRANT EXECUTE ON FUNCTION match_nelson_chunks_by_chapter TO anon;
-GRANT EXECUTE ON FUNCTION hybrid_search_nelson TO anon;
\ No newline at end of file
+GRANT EXECUTE ON FUNCTION hybrid_search_nelson TO anon;
+GRANT EXECUTE ON FUNCTION search_nelson_chunks_text TO anon;
+GRANT EXECUTE ON FUNCTION list_nelson_chapters TO anon;
+GRANT EXECUTE ON FUNCTION list_nelson_embedding_models TO anon;
+
+-- Chat session management: pinning, archiving and deleting sessions with their messages
+ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false;
+ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS archived boolean NOT NULL DEFAULT false;
+
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_session_id_fkey;
+ALTER TABLE chat_messages
+  ADD CONSTRAINT chat_messages_session_id_fkey
+  FOREIGN KEY (session_id) REFERENCES chat_sessions (id) ON DELETE CASCADE;
+
+-- Sidebar pages: a user's active or archived sessions by (last_message_at, id) keyset
+DROP INDEX IF EXISTS idx_chat_sessions_user_archived_last_message;
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_archived_last_message_id
+ON chat_sessions (user_id, archived, last_message_at DESC, id DESC);
+
+-- Full-text search over the signed-in user's consultations (message text and session titles)
+CREATE INDEX IF NOT EXISTS idx_chat_messages_content_fts
+ON chat_messages USING gin (to_tsvector('english', content));
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_title_fts
+ON chat_sessions USING gin (to_tsvector('english', title));
+
+-- Build an AND-query with prefix matching from free text, so results narrow while typing
+CREATE OR REPLACE FUNCTION chat_history_query(query_text text)
+RETURNS tsquery
+LANGUAGE SQL IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', array_to_string(
+    ARRAY(SELECT lexeme || ':*' FROM unnest(tsvector_to_array(to_tsvector('english', query_text))) AS lexeme),
+    ' & '
+  ));
+$$;
+
+-- Runs with the caller's rights, so row-level security limits results to their own sessions.
+-- Session title matches rank above message matches; snippets mark matches with <mark></mark>.
+CREATE OR REPLACE FUNCTION search_chat_history(
+  query_text text,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  session_id uuid,
+  session_title text,
+  archived boolean,
+  message_id uuid,
+  role text,
+  snippet text,
+  created_at timestamp with time zone,
+  rank float
+)
+LANGUAGE SQL STABLE
+AS $$
+  WITH query AS (
+    SELECT chat_history_query(query_text) AS tsq
+  ),
+  title_matches AS (
+    SELECT
+      chat_sessions.id AS session_id,
+      NULL::uuid AS message_id,
+      (1 + ts_rank_cd(to_tsvector('english', chat_sessions.title), query.tsq, 32))::float AS rank
+    FROM chat_sessions, query
+    WHERE chat_sessions.user_id = auth.uid()
+      AND to_tsvector('english', chat_sessions.title) @@ query.tsq
+  ),
+  message_matches AS (
+    SELECT
+      chat_messages.session_id,
+      chat_messages.id AS message_id,
+      ts_rank_cd(to_tsvector('english', chat_messages.content), query.tsq, 32)::float AS rank
+    FROM chat_messages
+    JOIN chat_sessions ON chat_sessions.id = chat_messages.session_id, query
+    WHERE chat_sessions.user_id = auth.uid()
+      AND to_tsvector('english', chat_messages.content) @@ query.tsq
+  ),
+  top_matches AS (
+    SELECT * FROM title_matches
+    UNION ALL
+    SELECT * FROM message_matches
+    ORDER BY rank DESC
+    LIMIT match_count
+  )
+  -- Headlines are only built for the returned rows
+  SELECT
+    top_matches.session_id,
+    chat_sessions.title AS session_title,
+    chat_sessions.archived,
+    top_matches.message_id,
+    chat_messages.role::text AS role,
+    CASE
+      WHEN chat_messages.id IS NULL THEN chat_sessions.title
+      ELSE ts_headline('english', chat_messages.content, query.tsq,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=10, MaxFragments=1')
+    END AS snippet,
+    COALESCE(chat_messages.created_at, chat_sessions.last_message_at) AS created_at,
+    top_matches.rank
+  FROM top_matches
+  JOIN chat_sessions ON chat_sessions.id = top_matches.session_id
+  LEFT JOIN chat_messages ON chat_messages.id = top_matches.message_id
+  CROSS JOIN query
+  ORDER BY top_matches.rank DESC, created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_chat_history TO authenticated;
+
+-- Thumbs-up/down feedback on assistant messages, one rating per user and message
+CREATE TABLE IF NOT EXISTS message_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES chat_messages (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  rating text NOT NULL CHECK (rating IN ('up', 'down')),
+  reasons text[] NOT NULL DEFAULT '{}'
+    CHECK (reasons <@ ARRAY['inaccurate', 'missing_citation', 'outdated', 'unsafe', 'not_helpful']),
+  comment text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_feedback_created
+ON message_feedback (created_at DESC);
+
+-- Feedback joined with the question it answered (the latest user message before the
+-- answer), the answer and the chunks retrieved for it, for QA review. Only the service
+-- role reads it (see supabase_policies.sql).
+CREATE OR REPLACE VIEW message_feedback_export
+WITH (security_invoker = true)
+AS
+SELECT
+  message_feedback.id AS feedback_id,
+  message_feedback.created_at,
+  message_feedback.user_id,
+  message_feedback.rating,
+  message_feedback.reasons,
+  message_feedback.comment,
+  answer.session_id,
+  answer.id AS message_id,
+  question.content AS question,
+  answer.content AS answer,
+  answer.confidence,
+  ARRAY(
+    SELECT jsonb_array_elements_text(COALESCE(answer.metadata->'retrievedDocumentIds', '[]'::jsonb))
+  ) AS retrieved_chunk_ids,
+  ARRAY(
+    SELECT citation->>'document_id'
+    FROM jsonb_array_elements(COALESCE(to_jsonb(answer.citations), '[]'::jsonb)) AS citation
+  ) AS cited_chunk_ids,
+  answer.metadata->>'model' AS model
+FROM message_feedback
+JOIN chat_messages AS answer ON answer.id = message_feedback.message_id
+LEFT JOIN LATERAL (
+  SELECT chat_messages.content
+  FROM chat_messages
+  WHERE chat_messages.session_id = answer.session_id
+    AND chat_messages.role = 'user'
+    AND chat_messages.created_at <= answer.created_at
+  ORDER BY chat_messages.created_at DESC
+  LIMIT 1
+) AS question ON true;
+
+-- Session counters follow chat_messages inserts and deletes in the same transaction, so
+-- back-to-back saves can't race on message_count. Runs with the caller's rights; the
+-- session owner may update their session under row-level security.
+CREATE OR REPLACE FUNCTION update_chat_session_counters()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE chat_sessions
+    SET
+      message_count = COALESCE(message_count, 0) + 1,
+      last_message_at = GREATEST(last_message_at, NEW.created_at)
+    WHERE id = NEW.session_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE chat_sessions
+  SET message_count = GREATEST(COALESCE(message_count, 0) - 1, 0)
+  WHERE id = OLD.session_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chat_messages_session_counters ON chat_messages;
+CREATE TRIGGER chat_messages_session_counters
+AFTER INSERT OR DELETE ON chat_messages
+FOR EACH ROW EXECUTE FUNCTION update_chat_session_counters();
+
+-- Correct counts left behind by the old read-then-write update
+UPDATE chat_sessions
+SET message_count = (
+  SELECT count(*) FROM chat_messages WHERE chat_messages.session_id = chat_sessions.id
+);
@@ -0,0 +1,143 @@
+-- Row-level security for Nelson-GPT
+-- Run after supabase_functions.sql. Chat sessions and messages are private to the
+-- signed-in user (auth.uid()); the Nelson textbook chunks stay readable by everyone
+-- and are only written by the ingestion scripts, which use the service role key
+-- (the service role bypasses RLS).
+
+-- Sessions record their owner; new rows default to the caller. Sessions saved before
+-- sign-in existed have no user_id and are hidden by the policies below.
+ALTER TABLE chat_sessions
+  ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- Sidebar query: a user's sessions, most recent first
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_last_message
+ON chat_sessions (user_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session
+ON chat_messages (session_id, created_at);
+
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nelson_textbook_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chat sessions: owners only
+DROP POLICY IF EXISTS "Users read their own sessions" ON chat_sessions;
+CREATE POLICY "Users read their own sessions"
+ON chat_sessions FOR SELECT TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users create their own sessions" ON chat_sessions;
+CREATE POLICY "Users create their own sessions"
+ON chat_sessions FOR INSERT TO authenticated
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users update their own sessions" ON chat_sessions;
+CREATE POLICY "Users update their own sessions"
+ON chat_sessions FOR UPDATE TO authenticated
+USING (user_id = (SELECT auth.uid()))
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users delete their own sessions" ON chat_sessions;
+CREATE POLICY "Users delete their own sessions"
+ON chat_sessions FOR DELETE TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+-- Chat messages: visible and writable through a session the user owns
+DROP POLICY IF EXISTS "Users read messages in their sessions" ON chat_messages;
+CREATE POLICY "Users read messages in their sessions"
+ON chat_messages FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM chat_sessions
+  WHERE chat_sessions.id = chat_messages.session_id
+    AND chat_sessions.user_id = (SELECT auth.uid())
+));
+
+DROP POLICY IF EXISTS "Users add messages to their sessions" ON chat_messages;
+CREATE POLICY "Users add messages to their sessions"
+ON chat_messages FOR INSERT TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM chat_sessions
+  WHERE chat_sessions.id = chat_messages.session_id
+    AND chat_sessions.user_id = (SELECT auth.uid())
+));
+
+DROP POLICY IF EXISTS "Users update messages in their sessions" ON chat_messages;
+CREATE POLICY "Users update messages in their sessions"
+ON chat_messages FOR UPDATE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM chat_sessions
+  WHERE chat_sessions.id = chat_messages.session_id
+    AND chat_sessions.user_id = (SELECT auth.uid())
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM chat_sessions
+  WHERE chat_sessions.id = chat_messages.session_id
+    AND chat_sessions.user_id = (SELECT auth.uid())
+));
+
+DROP POLICY IF EXISTS "Users delete messages in their sessions" ON chat_messages;
+CREATE POLICY "Users delete messages in their sessions"
+ON chat_messages FOR DELETE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM chat_sessions
+  WHERE chat_sessions.id = chat_messages.session_id
+    AND chat_sessions.user_id = (SELECT auth.uid())
+));
+
+-- Message feedback: users rate messages in their own sessions and see only their ratings
+ALTER TABLE message_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read their own feedback" ON message_feedback;
+CREATE POLICY "Users read their own feedback"
+ON message_feedback FOR SELECT TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users rate messages in their sessions" ON message_feedback;
+CREATE POLICY "Users rate messages in their sessions"
+ON message_feedback FOR INSERT TO authenticated
+WITH CHECK (
+  user_id = (SELECT auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM chat_messages
+    JOIN chat_sessions ON chat_sessions.id = chat_messages.session_id
+    WHERE chat_messages.id = message_feedback.message_id
+      AND chat_sessions.user_id = (SELECT auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users update their own feedback" ON message_feedback;
+-- The updated row must still rate a message in the user's own sessions
+CREATE POLICY "Users update their own feedback"
+ON message_feedback FOR UPDATE TO authenticated
+USING (user_id = (SELECT auth.uid()))
+WITH CHECK (
+  user_id = (SELECT auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM chat_messages
+    JOIN chat_sessions ON chat_sessions.id = chat_messages.session_id
+    WHERE chat_messages.id = message_feedback.message_id
+      AND chat_sessions.user_id = (SELECT auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users delete their own feedback" ON message_feedback;
+CREATE POLICY "Users delete their own feedback"
+ON message_feedback FOR DELETE TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+-- Nelson textbook chunks: read-only for the app and the API worker
+DROP POLICY IF EXISTS "Anyone can read Nelson chunks" ON nelson_textbook_chunks;
+CREATE POLICY "Anyone can read Nelson chunks"
+ON nelson_textbook_chunks FOR SELECT TO anon, authenticated
+USING (true);
+
+-- Anonymous clients have no access to chat history
+REVOKE ALL ON chat_sessions FROM anon;
+REVOKE ALL ON chat_messages FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON chat_sessions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON chat_messages TO authenticated;
+REVOKE ALL ON message_feedback FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON message_feedback TO authenticated;
+
+-- The QA export spans all users; only the service role (export script) may read it
+REVOKE ALL ON message_feedback_export FROM anon, authenticated;
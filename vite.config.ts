@@ -59,6 +59,10 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
         maximumFileSizeToCacheInBytes: 5000000,
         runtimeCaching: [
+          {
+            urlPattern: /\/api\/.*/i,
+            handler: 'NetworkOnly'
+          },
           {
             urlPattern: /^https:\/\/api\.mistral\.ai\/.*/i,
             handler: 'NetworkOnly'
@@ -80,6 +84,10 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The embedding worker lazily imports the ONNX runtime, which needs ES module workers
+    format: 'es'
+  },
   server: {
     port: 3000,
     host: true